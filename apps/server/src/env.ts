@@ -4,10 +4,46 @@ import { resolve } from 'path';
 // Load .env from project root
 config({ path: resolve(process.cwd(), '../../.env') });
 
+const OPENAI_BASE_URL = (process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1').replace(/\/+$/, '');
+
 export const env = {
   PORT: parseInt(process.env.PORT || '3001', 10),
   NODE_ENV: process.env.NODE_ENV || 'development',
   OPENAI_API_KEY: process.env.OPENAI_API_KEY || '',
+  // OpenAI REST base URL - point at the mock server (npm run dev:mock) to work offline
+  OPENAI_BASE_URL,
+  // Realtime WebSocket URL the relay connects to (defaults to the base URL's realtime endpoint)
+  OPENAI_REALTIME_URL: process.env.OPENAI_REALTIME_URL || `${OPENAI_BASE_URL.replace(/^http/, 'ws')}/realtime`,
+  // Server-side WebSocket relay for realtime transcription (src/realtime/relay.ts)
+  REALTIME_RELAY: process.env.REALTIME_RELAY === 'true',
+  // Where the relay writes per-session audio and event logs, relative to the project root ('' disables)
+  RELAY_RECORDING_DIR: process.env.RELAY_RECORDING_DIR ?? 'recordings',
+  // Evaluator completions per score when the output fails schema validation (1 = no repair retry)
+  EVALUATOR_MAX_ATTEMPTS: parseInt(process.env.EVALUATOR_MAX_ATTEMPTS || '2', 10),
+  // Additional evaluator providers (src/evaluator/providers.ts), selected per profile
+  AZURE_OPENAI_ENDPOINT: (process.env.AZURE_OPENAI_ENDPOINT || '').replace(/\/+$/, ''),
+  AZURE_OPENAI_API_KEY: process.env.AZURE_OPENAI_API_KEY || '',
+  AZURE_OPENAI_API_VERSION: process.env.AZURE_OPENAI_API_VERSION || '2024-06-01',
+  AZURE_OPENAI_DEPLOYMENT: process.env.AZURE_OPENAI_DEPLOYMENT || 'gpt-4o-mini',
+  ANTHROPIC_API_KEY: process.env.ANTHROPIC_API_KEY || '',
+  ANTHROPIC_BASE_URL: (process.env.ANTHROPIC_BASE_URL || 'https://api.anthropic.com/v1').replace(/\/+$/, ''),
+  ANTHROPIC_MODEL: process.env.ANTHROPIC_MODEL || 'claude-3-5-haiku-latest',
+  ANTHROPIC_MAX_TOKENS: parseInt(process.env.ANTHROPIC_MAX_TOKENS || '1024', 10),
+  // OpenAI-compatible local server, e.g. http://localhost:11434/v1 (Ollama) or http://localhost:8080/v1 (llama.cpp)
+  LOCAL_EVALUATOR_BASE_URL: (process.env.LOCAL_EVALUATOR_BASE_URL || '').replace(/\/+$/, ''),
+  LOCAL_EVALUATOR_API_KEY: process.env.LOCAL_EVALUATOR_API_KEY || '',
+  LOCAL_EVALUATOR_MODEL: process.env.LOCAL_EVALUATOR_MODEL || 'llama3.1:8b',
+  // Local Whisper server for record-then-transcribe runs (src/stt/providers.ts):
+  // whisper.cpp's server at e.g. http://localhost:8080, or with LOCAL_STT_API=openai an
+  // OpenAI-compatible server such as faster-whisper-server at e.g. http://localhost:8000/v1
+  LOCAL_STT_BASE_URL: (process.env.LOCAL_STT_BASE_URL || '').replace(/\/+$/, ''),
+  LOCAL_STT_API: process.env.LOCAL_STT_API === 'openai' ? 'openai' : 'whisper.cpp',
+  LOCAL_STT_MODEL: process.env.LOCAL_STT_MODEL || '',
+  // SQLite database for shared TestRun history, relative to the project root
+  RUNS_DB_PATH: process.env.RUNS_DB_PATH || 'data/runs.sqlite',
+  // Offline mock OpenAI server (src/mock/openaiMock.ts)
+  MOCK_OPENAI_PORT: parseInt(process.env.MOCK_OPENAI_PORT || '3002', 10),
+  MOCK_SCRIPT: process.env.MOCK_SCRIPT || '',
   // CORS origins - comma-separated list of allowed origins
   // Default includes localhost for dev; add production URLs in Vercel env vars
   CORS_ORIGINS: process.env.CORS_ORIGINS || 'http://localhost:5173,http://127.0.0.1:5173',
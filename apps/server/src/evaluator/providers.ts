@@ -0,0 +1,240 @@
+import { env } from '../env.js';
+import { logger } from '../utils/logger.js';
+import { ProviderRequestError } from '../utils/providerRequestError.js';
+
+/**
+ * Evaluator providers
+ *
+ * Each provider turns a provider-neutral chat completion request into the
+ * HTTP request its API expects and reads the completion text and token usage
+ * back out. The score route picks the provider per request (profile setting)
+ * and can fall back to a second one when the first is unavailable.
+ */
+
+export type EvaluatorProviderId = 'openai' | 'azure' | 'anthropic' | 'local';
+
+export interface TokenUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+}
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+// Provider-neutral request; the output is always expected to be a JSON object
+export interface CompletionRequest {
+  model: string;
+  temperature: number;
+  messages: ChatMessage[];
+}
+
+export interface CompletionResult {
+  content: string | undefined;
+  usage?: TokenUsage;
+}
+
+// The HTTP request sent to the provider; headers carry credentials and are never returned to clients
+export interface ProviderHttpRequest {
+  url: string;
+  headers: Record<string, string>;
+  body: Record<string, unknown>;
+}
+
+export interface EvaluatorProvider {
+  id: EvaluatorProviderId;
+  label: string;
+  defaultModel: string;
+  // Name of the env var that enables the provider, for error messages
+  requiredEnv: string;
+  isConfigured(): boolean;
+  buildRequest(request: CompletionRequest): ProviderHttpRequest;
+  parseResponse(data: unknown): CompletionResult;
+}
+
+interface ChatCompletionsResponse {
+  choices?: Array<{ message?: { content?: string } }>;
+  usage?: TokenUsage;
+}
+
+// OpenAI, Azure OpenAI and OpenAI-compatible local servers share the chat completions format
+function chatCompletionsBody(request: CompletionRequest, includeModel = true): Record<string, unknown> {
+  return {
+    ...(includeModel ? { model: request.model } : {}),
+    temperature: request.temperature,
+    messages: request.messages,
+    response_format: { type: 'json_object' }
+  };
+}
+
+function parseChatCompletions(data: unknown): CompletionResult {
+  const response = data as ChatCompletionsResponse;
+  return { content: response.choices?.[0]?.message?.content, usage: response.usage };
+}
+
+const openaiProvider: EvaluatorProvider = {
+  id: 'openai',
+  label: 'OpenAI',
+  defaultModel: 'gpt-4o-mini',
+  requiredEnv: 'OPENAI_API_KEY',
+  isConfigured: () => !!env.OPENAI_API_KEY,
+  buildRequest: request => ({
+    url: `${env.OPENAI_BASE_URL}/chat/completions`,
+    headers: { 'Authorization': `Bearer ${env.OPENAI_API_KEY}` },
+    body: chatCompletionsBody(request)
+  }),
+  parseResponse: parseChatCompletions
+};
+
+// Azure routes by deployment name; the request's model is used as the deployment
+const azureProvider: EvaluatorProvider = {
+  id: 'azure',
+  label: 'Azure OpenAI',
+  get defaultModel() {
+    return env.AZURE_OPENAI_DEPLOYMENT;
+  },
+  requiredEnv: 'AZURE_OPENAI_ENDPOINT and AZURE_OPENAI_API_KEY',
+  isConfigured: () => !!env.AZURE_OPENAI_ENDPOINT && !!env.AZURE_OPENAI_API_KEY,
+  buildRequest: request => ({
+    url: `${env.AZURE_OPENAI_ENDPOINT}/openai/deployments/${encodeURIComponent(request.model)}/chat/completions?api-version=${env.AZURE_OPENAI_API_VERSION}`,
+    headers: { 'api-key': env.AZURE_OPENAI_API_KEY },
+    body: chatCompletionsBody(request, false)
+  }),
+  parseResponse: parseChatCompletions
+};
+
+interface AnthropicResponse {
+  content?: Array<{ type: string; text?: string }>;
+  usage?: { input_tokens: number; output_tokens: number };
+}
+
+// Anthropic has no JSON mode; take the outermost object if the model wrapped it in prose or a code fence
+function extractJsonObject(text: string): string {
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  return start !== -1 && end > start ? text.slice(start, end + 1) : text;
+}
+
+const anthropicProvider: EvaluatorProvider = {
+  id: 'anthropic',
+  label: 'Anthropic',
+  get defaultModel() {
+    return env.ANTHROPIC_MODEL;
+  },
+  requiredEnv: 'ANTHROPIC_API_KEY',
+  isConfigured: () => !!env.ANTHROPIC_API_KEY,
+  buildRequest: request => ({
+    url: `${env.ANTHROPIC_BASE_URL}/messages`,
+    headers: {
+      'x-api-key': env.ANTHROPIC_API_KEY,
+      'anthropic-version': '2023-06-01'
+    },
+    body: {
+      model: request.model,
+      max_tokens: env.ANTHROPIC_MAX_TOKENS,
+      temperature: request.temperature,
+      // System messages go in the top-level system field
+      system: request.messages.filter(m => m.role === 'system').map(m => m.content).join('\n\n'),
+      messages: request.messages
+        .filter(m => m.role !== 'system')
+        .map(m => ({ role: m.role, content: m.content }))
+    }
+  }),
+  parseResponse: data => {
+    const response = data as AnthropicResponse;
+    const text = response.content
+      ?.filter(block => block.type === 'text')
+      .map(block => block.text ?? '')
+      .join('');
+    const usage = response.usage
+      ? {
+        prompt_tokens: response.usage.input_tokens,
+        completion_tokens: response.usage.output_tokens,
+        total_tokens: response.usage.input_tokens + response.usage.output_tokens
+      }
+      : undefined;
+    return { content: text ? extractJsonObject(text) : undefined, usage };
+  }
+};
+
+// llama.cpp server, Ollama, vLLM and similar OpenAI-compatible endpoints
+const localProvider: EvaluatorProvider = {
+  id: 'local',
+  label: 'Local (OpenAI-compatible)',
+  get defaultModel() {
+    return env.LOCAL_EVALUATOR_MODEL;
+  },
+  requiredEnv: 'LOCAL_EVALUATOR_BASE_URL',
+  isConfigured: () => !!env.LOCAL_EVALUATOR_BASE_URL,
+  buildRequest: request => ({
+    url: `${env.LOCAL_EVALUATOR_BASE_URL}/chat/completions`,
+    headers: env.LOCAL_EVALUATOR_API_KEY ? { 'Authorization': `Bearer ${env.LOCAL_EVALUATOR_API_KEY}` } : {} as Record<string, string>,
+    body: chatCompletionsBody(request)
+  }),
+  parseResponse: parseChatCompletions
+};
+
+const PROVIDERS: Record<EvaluatorProviderId, EvaluatorProvider> = {
+  openai: openaiProvider,
+  azure: azureProvider,
+  anthropic: anthropicProvider,
+  local: localProvider
+};
+
+export function isEvaluatorProviderId(value: unknown): value is EvaluatorProviderId {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(PROVIDERS, value);
+}
+
+export function getProvider(id: EvaluatorProviderId): EvaluatorProvider {
+  return PROVIDERS[id];
+}
+
+export function listProviders() {
+  return Object.values(PROVIDERS).map(provider => ({
+    id: provider.id,
+    label: provider.label,
+    configured: provider.isConfigured(),
+    defaultModel: provider.defaultModel
+  }));
+}
+
+/**
+ * One completion from a provider; failures are thrown as ProviderRequestError
+ */
+export async function createCompletion(
+  provider: EvaluatorProvider,
+  request: CompletionRequest,
+  attempt: number
+): Promise<CompletionResult> {
+  if (!provider.isConfigured()) {
+    throw new ProviderRequestError(503, `${provider.label} is not configured (set ${provider.requiredEnv})`, provider.id);
+  }
+
+  const { url, headers, body } = provider.buildRequest(request);
+  let fetchRes: globalThis.Response;
+  try {
+    fetchRes = await fetch(url, {
+      method: 'POST',
+      headers: { ...headers, 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    logger.error('Evaluator provider unreachable', { provider: provider.id, error: message, attempt });
+    throw new ProviderRequestError(502, message, provider.id);
+  }
+
+  if (!fetchRes.ok) {
+    const errorText = await fetchRes.text();
+    logger.error('Evaluator provider error', { provider: provider.id, status: fetchRes.status, error: errorText, attempt });
+    throw new ProviderRequestError(fetchRes.status, errorText, provider.id);
+  }
+
+  return provider.parseResponse(await fetchRes.json());
+}
+
+// Outages, rate limits and missing configuration are worth retrying on a fallback; bad requests are not
+export const isRetryableOnFallback = (error: ProviderRequestError) =>
+  error.status === 408 || error.status === 429 || error.status >= 500;
@@ -0,0 +1,67 @@
+import type { EvaluatorScores } from './scoreSchema.js';
+
+/**
+ * Consistency sampling: the evaluator is asked N times for the same input and
+ * the spread of its section scores shows how much of a score is noise.
+ */
+
+export type ScoreSection = 'accuracy' | 'fluency' | 'structure' | 'overall';
+
+export interface ScoreStats {
+  mean: number;
+  min: number;
+  max: number;
+  stdDev: number; // Sample standard deviation (0 for a single sample)
+}
+
+export interface SampledScores {
+  scores: EvaluatorScores;                   // Mean section scores, reasons from the most typical sample
+  stats: Record<ScoreSection, ScoreStats>;
+}
+
+const SECTION_FIELDS: Record<ScoreSection, keyof Pick<EvaluatorScores, 'accuracyScore' | 'fluencyScore' | 'structureScore' | 'overallScore'>> = {
+  accuracy: 'accuracyScore',
+  fluency: 'fluencyScore',
+  structure: 'structureScore',
+  overall: 'overallScore'
+};
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+export function describeScores(values: number[]): ScoreStats {
+  const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+  const variance = values.length > 1
+    ? values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (values.length - 1)
+    : 0;
+  return {
+    mean: round1(mean),
+    min: Math.min(...values),
+    max: Math.max(...values),
+    stdDev: round1(Math.sqrt(variance))
+  };
+}
+
+/**
+ * Combine valid samples into one score (requires at least one sample)
+ */
+export function aggregateSamples(samples: EvaluatorScores[]): SampledScores {
+  const stats = Object.fromEntries(
+    Object.entries(SECTION_FIELDS).map(([section, field]) => [section, describeScores(samples.map(s => s[field]))])
+  ) as Record<ScoreSection, ScoreStats>;
+
+  // Reasons and matched variant come from the sample whose overall score is closest to the mean
+  const typical = samples.reduce((best, sample) =>
+    Math.abs(sample.overallScore - stats.overall.mean) < Math.abs(best.overallScore - stats.overall.mean) ? sample : best
+  );
+
+  return {
+    scores: {
+      ...typical,
+      accuracyScore: Math.round(stats.accuracy.mean),
+      fluencyScore: Math.round(stats.fluency.mean),
+      structureScore: Math.round(stats.structure.mean),
+      overallScore: Math.round(stats.overall.mean)
+    },
+    stats
+  };
+}
@@ -0,0 +1,76 @@
+import type { EvaluatorProviderId } from './providers.js';
+
+/**
+ * Body of POST /api/evaluator/score, shared by the route and the prompt templates
+ */
+export interface ScoreRequest {
+  expectedAnswer: {
+    raw: string;
+    normalized: string;
+    variants?: Array<{ raw: string; normalized: string }>;
+  };
+  transcript: {
+    raw: string;
+    normalized: string;
+  };
+  fluencyMetrics: {
+    durationMs: number;
+    wpm: number;
+    pauseCount: number;
+    longPauseCount: number;
+    longestPauseMs: number;
+    fillerCount: number;
+    fillerBreakdown: Record<string, number>;
+    pauses?: Array<{ startMs: number; endMs: number; durationMs: number }>;
+    speechOnsetMs?: number;
+    pauseSource?: 'audio' | 'estimated';
+  };
+  structureRequirements: {
+    requireReceiver: boolean;
+    requireSender: boolean;
+    requireLocation: boolean;
+    requireIntent: boolean;
+    closingOptional: boolean;
+  };
+  structureAnalysis?: {
+    findings: Array<{
+      component: 'receiver' | 'sender' | 'location' | 'intent' | 'closing';
+      required: boolean;
+      checked: boolean;
+      found: boolean;
+      text?: string;
+      position?: number;
+    }>;
+    orderIssues: string[];
+    score: number;
+  };
+  profileParameters: {
+    weights: { accuracy: number; fluency: number; structure: number };
+    fluency: {
+      fillerPenaltyPerWord: number;
+      fillerPenaltyCap: number;
+      pausePenalty: number;
+      longPausePenalty: number;
+      pausePenaltyCap: number;
+    };
+  };
+  question?: {
+    id: string;
+    scenarioPrompt: string;
+    tags?: string[];
+    difficulty?: string;
+  };
+  scoringPrompt: string;
+  explanationPrompt: string;
+  systemPromptTemplate?: string; // Whole system prompt layout (server default when empty)
+  userPromptTemplate?: string;   // Whole user prompt layout (server default when empty)
+  provider?: EvaluatorProviderId; // OpenAI when unset
+  model?: string;                  // Provider default when unset (the deployment name on Azure)
+  fallback?: {                     // Used when the provider is down, rate limited or not configured
+    provider: EvaluatorProviderId;
+    model?: string;
+  };
+  temperature?: number;
+  maxAttempts?: number; // Completions allowed per sample, including repair retries
+  samples?: number;     // Independent evaluator samples per score (consistency sampling)
+}
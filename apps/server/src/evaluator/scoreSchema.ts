@@ -0,0 +1,116 @@
+/**
+ * Evaluator output schema
+ *
+ * The LLM's JSON is checked field by field before it reaches the client:
+ * section scores must be numbers within 0-100, every reasons section an array
+ * of strings, and matchedVariant (prompt numbering: 0 = expected answer,
+ * 1..n = variants) an integer in range when present. Unknown fields are dropped.
+ */
+
+export interface EvaluatorScores {
+  accuracyScore: number;
+  fluencyScore: number;
+  structureScore: number;
+  overallScore: number;
+  reasons: {
+    accuracy: string[];
+    fluency: string[];
+    structure: string[];
+  };
+  matchedVariant?: number; // -1 = expected answer, 0+ = index into expectedAnswer.variants
+}
+
+export interface ScoreValidationResult {
+  scores?: EvaluatorScores; // Present only when errors is empty
+  errors: string[];
+}
+
+const SCORE_FIELDS = ['accuracyScore', 'fluencyScore', 'structureScore', 'overallScore'] as const;
+const REASON_SECTIONS = ['accuracy', 'fluency', 'structure'] as const;
+
+export function validateScoreOutput(content: string | undefined, variantCount: number): ScoreValidationResult {
+  if (!content) {
+    return { errors: ['Response is empty'] };
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch (error) {
+    return { errors: [`Response is not valid JSON: ${error instanceof Error ? error.message : 'parse error'}`] };
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    return { errors: ['Response must be a JSON object'] };
+  }
+
+  const output = parsed as Record<string, unknown>;
+  const errors: string[] = [];
+
+  for (const field of SCORE_FIELDS) {
+    const value = output[field];
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      errors.push(`${field} must be a number (got ${JSON.stringify(value) ?? 'nothing'})`);
+    } else if (value < 0 || value > 100) {
+      errors.push(`${field} must be between 0 and 100 (got ${value})`);
+    }
+  }
+
+  const reasons = output.reasons as Record<string, unknown> | undefined;
+  if (!reasons || typeof reasons !== 'object' || Array.isArray(reasons)) {
+    errors.push('reasons must be an object with accuracy, fluency and structure arrays');
+  } else {
+    for (const section of REASON_SECTIONS) {
+      const list = reasons[section];
+      if (!Array.isArray(list)) {
+        errors.push(`reasons.${section} must be an array of strings`);
+      } else if (list.some(reason => typeof reason !== 'string')) {
+        errors.push(`reasons.${section} must contain only strings`);
+      }
+    }
+  }
+
+  let matchedVariant: number | undefined;
+  if (output.matchedVariant !== undefined && output.matchedVariant !== null) {
+    const value = output.matchedVariant;
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < 0 || value > variantCount) {
+      errors.push(`matchedVariant must be an integer from 0 to ${variantCount} (got ${JSON.stringify(value)})`);
+    } else {
+      // Prompt numbers variants from 1 (0 = expected answer); convert to a variants index
+      matchedVariant = value - 1;
+    }
+  }
+
+  if (errors.length > 0) {
+    return { errors };
+  }
+
+  const validReasons = reasons as Record<typeof REASON_SECTIONS[number], string[]>;
+  return {
+    scores: {
+      accuracyScore: output.accuracyScore as number,
+      fluencyScore: output.fluencyScore as number,
+      structureScore: output.structureScore as number,
+      overallScore: output.overallScore as number,
+      reasons: {
+        accuracy: validReasons.accuracy,
+        fluency: validReasons.fluency,
+        structure: validReasons.structure
+      },
+      ...(matchedVariant !== undefined ? { matchedVariant } : {})
+    },
+    errors
+  };
+}
+
+/**
+ * Follow-up message asking the model to fix its previous output
+ */
+export function buildRepairPrompt(errors: string[]): string {
+  return `Your previous response did not match the required schema:
+${errors.map(error => `- ${error}`).join('\n')}
+
+Return the corrected evaluation as a single JSON object with exactly these fields:
+accuracyScore, fluencyScore, structureScore, overallScore (numbers from 0 to 100),
+matchedVariant (integer), and reasons with accuracy, fluency and structure arrays of strings.
+Return JSON only, no other text.`;
+}
@@ -5,6 +5,9 @@ import { logger } from './utils/logger.js';
 import healthRouter from './routes/health.js';
 import transcriptionSessionRouter from './routes/openaiTranscriptionSession.js';
 import evaluatorRouter from './routes/evaluator.js';
+import runsRouter from './routes/runs.js';
+import sttRouter from './routes/stt.js';
+import { relayRouter, attachRealtimeRelay } from './realtime/relay.js';
 
 // Validate environment
 env.validate();
@@ -33,6 +36,9 @@ app.use('/api/openai/realtime/transcription-session', transcriptionSessionRouter
 // Use GA transcription session router (replaces legacy webrtcSessionRouter)
 app.use('/api/webrtc/session', transcriptionSessionRouter);
 app.use('/api/evaluator', evaluatorRouter);
+app.use('/api/runs', runsRouter);
+app.use('/api/stt', sttRouter);
+app.use('/api/realtime/relay', relayRouter);
 
 // 404 handler
 app.use((_req, res) => {
@@ -46,7 +52,11 @@ app.use((err: Error, _req: express.Request, res: express.Response, _next: expres
 });
 
 // Start server
-app.listen(env.PORT, () => {
+const server = app.listen(env.PORT, () => {
   logger.info(`Server running on http://localhost:${env.PORT}`);
   logger.info(`Environment: ${env.NODE_ENV}`);
 });
+
+if (env.REALTIME_RELAY) {
+  attachRealtimeRelay(server);
+}
@@ -0,0 +1,60 @@
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import { logger } from '../utils/logger.js';
+
+/**
+ * Scripted responses for the mock OpenAI server
+ *
+ * Loaded from the JSON file named by MOCK_SCRIPT (relative to the project root),
+ * falling back to a passing answer for the sample bank's first question.
+ */
+export interface MockScript {
+  // One transcript per committed audio item, cycled in order
+  transcripts: string[];
+  // Evaluator message content: one object, or a list used in turn per completion.
+  // Strings are returned as-is, e.g. to exercise schema validation and repair.
+  evaluator: Record<string, unknown> | Array<Record<string, unknown> | string>;
+  // Delay between transcription deltas, to exercise interim text in the UI
+  deltaIntervalMs: number;
+}
+
+const DEFAULT_SCRIPT: MockScript = {
+  transcripts: ['ATC, Bowser One, request taxi to runway two seven. Over.'],
+  evaluator: {
+    accuracyScore: 92,
+    fluencyScore: 85,
+    structureScore: 100,
+    overallScore: 92,
+    matchedVariant: 0,
+    reasons: {
+      accuracy: ['Mock evaluator: transcript matches the expected answer'],
+      fluency: ['Mock evaluator: steady pace'],
+      structure: ['Mock evaluator: receiver, sender, intent and closing present']
+    }
+  },
+  deltaIntervalMs: 40
+};
+
+export function loadMockScript(scriptPath: string): MockScript {
+  if (!scriptPath) {
+    return DEFAULT_SCRIPT;
+  }
+
+  const fullPath = resolve(process.cwd(), '../..', scriptPath);
+  try {
+    const parsed = JSON.parse(readFileSync(fullPath, 'utf-8')) as Partial<MockScript>;
+    const script: MockScript = {
+      transcripts: parsed.transcripts?.length ? parsed.transcripts : DEFAULT_SCRIPT.transcripts,
+      evaluator: parsed.evaluator ?? DEFAULT_SCRIPT.evaluator,
+      deltaIntervalMs: parsed.deltaIntervalMs ?? DEFAULT_SCRIPT.deltaIntervalMs
+    };
+    logger.info('Loaded mock script', { path: fullPath, transcripts: script.transcripts.length });
+    return script;
+  } catch (error) {
+    logger.error('Failed to load mock script, using defaults', {
+      path: fullPath,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+    return DEFAULT_SCRIPT;
+  }
+}
@@ -0,0 +1,124 @@
+import express from 'express';
+import { createServer } from 'http';
+import { randomUUID } from 'crypto';
+import { env } from '../env.js';
+import { logger } from '../utils/logger.js';
+import { loadMockScript } from './mockScript.js';
+import { attachRealtimeMock } from './realtimeMock.js';
+import type { MockSession, MockTurnDetection } from './realtimeMock.js';
+
+/**
+ * Offline mock of the OpenAI endpoints used by the console
+ *
+ * - POST /v1/realtime/client_secrets: issues fake ephemeral secrets
+ * - WS   /v1/realtime: realtime transcription protocol (see realtimeMock.ts)
+ * - POST /v1/chat/completions: scripted evaluator JSON with token usage
+ * - POST /v1/audio/transcriptions: scripted transcript for a recorded file
+ *
+ * Run with `npm run dev:mock`, then set OPENAI_BASE_URL=http://localhost:3002/v1
+ * for the server and VITE_REALTIME_URL=ws://localhost:3002/v1/realtime for the web app.
+ */
+
+const DEFAULT_TURN_DETECTION: MockTurnDetection = {
+  threshold: 0.5,
+  prefix_padding_ms: 300,
+  silence_duration_ms: 500
+};
+
+// Client secrets expire after 10 minutes, like the real service's default
+const SECRET_TTL_SECONDS = 600;
+
+// Rough token estimate so cost accounting has something to count
+const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+const script = loadMockScript(env.MOCK_SCRIPT);
+const sessions = new Map<string, MockSession>();
+
+let evaluatorIndex = 0;
+function nextEvaluatorContent(): string {
+  const responses = Array.isArray(script.evaluator) ? script.evaluator : [script.evaluator];
+  const response = responses[evaluatorIndex++ % responses.length];
+  return typeof response === 'string' ? response : JSON.stringify(response);
+}
+
+const app = express();
+app.use(express.json({ limit: '1mb' }));
+
+app.post('/v1/realtime/client_secrets', (req, res) => {
+  const input = req.body?.session?.audio?.input ?? {};
+  const expiresAt = Math.floor(Date.now() / 1000) + SECRET_TTL_SECONDS;
+  const secret = `ek_mock_${randomUUID()}`;
+  const session: MockSession = {
+    id: `sess_mock_${randomUUID()}`,
+    turnDetection: { ...DEFAULT_TURN_DETECTION, ...input.turn_detection },
+    transcriptionModel: input.transcription?.model || 'gpt-4o-mini-transcribe',
+    transcriptionLanguage: input.transcription?.language
+  };
+  sessions.set(secret, session);
+  setTimeout(() => sessions.delete(secret), SECRET_TTL_SECONDS * 1000).unref();
+
+  logger.info('Mock: issued client secret', { sessionId: session.id, turnDetection: session.turnDetection });
+
+  res.json({
+    value: secret,
+    expires_at: expiresAt,
+    session: {
+      type: 'transcription',
+      object: 'realtime.transcription_session',
+      id: session.id,
+      expires_at: expiresAt,
+      audio: { input }
+    }
+  });
+});
+
+app.post('/v1/chat/completions', (req, res) => {
+  const messages: Array<{ content?: string }> = req.body?.messages ?? [];
+  const content = nextEvaluatorContent();
+  const promptTokens = estimateTokens(messages.map(m => m.content ?? '').join('\n'));
+  const completionTokens = estimateTokens(content);
+
+  logger.info('Mock: chat completion', { model: req.body?.model, promptTokens });
+
+  res.json({
+    id: `chatcmpl-mock-${randomUUID()}`,
+    object: 'chat.completion',
+    created: Math.floor(Date.now() / 1000),
+    model: req.body?.model || 'gpt-4o-mini',
+    choices: [{
+      index: 0,
+      message: { role: 'assistant', content },
+      finish_reason: 'stop'
+    }],
+    usage: {
+      prompt_tokens: promptTokens,
+      completion_tokens: completionTokens,
+      total_tokens: promptTokens + completionTokens
+    }
+  });
+});
+
+// The uploaded audio is not inspected; transcripts come from the script like realtime turns
+let fileTranscriptIndex = 0;
+app.post('/v1/audio/transcriptions', (req, res) => {
+  req.resume();
+  req.on('end', () => {
+    const text = script.transcripts[fileTranscriptIndex++ % script.transcripts.length];
+    logger.info('Mock: file transcription', { text });
+    res.json({ text });
+  });
+});
+
+app.use((req, res) => {
+  res.status(404).json({
+    error: { message: `Mock does not implement ${req.method} ${req.path}`, type: 'invalid_request_error' }
+  });
+});
+
+const server = createServer(app);
+attachRealtimeMock(server, sessions, script);
+
+server.listen(env.MOCK_OPENAI_PORT, () => {
+  logger.info(`Mock OpenAI server running on http://localhost:${env.MOCK_OPENAI_PORT}`);
+  logger.info(`Set OPENAI_BASE_URL=http://localhost:${env.MOCK_OPENAI_PORT}/v1 and VITE_REALTIME_URL=ws://localhost:${env.MOCK_OPENAI_PORT}/v1/realtime`);
+});
@@ -0,0 +1,223 @@
+import type { Server } from 'http';
+import { randomUUID } from 'crypto';
+import { WebSocketServer, WebSocket } from 'ws';
+import { logger } from '../utils/logger.js';
+import type { MockScript } from './mockScript.js';
+
+/**
+ * Mock Realtime transcription WebSocket (/v1/realtime?intent=transcription)
+ *
+ * Speaks the subset of the event protocol the console uses: session.created,
+ * session.updated, input_audio_buffer.speech_started / speech_stopped /
+ * committed, transcription delta / completed and error. Server VAD is emulated
+ * with an RMS gate driven by the session's turn_detection settings, so pause
+ * and commit behaviour follows the audio like the real service. Transcripts
+ * come from the mock script.
+ */
+
+export interface MockTurnDetection {
+  threshold: number;
+  prefix_padding_ms: number;
+  silence_duration_ms: number;
+}
+
+export interface MockSession {
+  id: string;
+  turnDetection: MockTurnDetection;
+  transcriptionModel: string;
+  transcriptionLanguage?: string; // Unset = auto-detect
+}
+
+const SAMPLE_RATE = 24000;
+
+// RMS that counts as speech at threshold 1.0 (threshold 0.5 ~ -40 dBFS, the client's silence gate)
+const SPEECH_RMS_AT_FULL_THRESHOLD = 0.02;
+
+// The real API rejects commits with less audio than this
+const MIN_COMMIT_MS = 100;
+
+const API_KEY_PROTOCOL_PREFIX = 'openai-insecure-api-key.';
+
+function pcm16Rms(base64Audio: string): { rms: number; durationMs: number } {
+  const bytes = Buffer.from(base64Audio, 'base64');
+  const sampleCount = Math.floor(bytes.length / 2);
+  let sumSquares = 0;
+  for (let i = 0; i < sampleCount; i++) {
+    const sample = bytes.readInt16LE(i * 2) / 32768;
+    sumSquares += sample * sample;
+  }
+  return {
+    rms: sampleCount > 0 ? Math.sqrt(sumSquares / sampleCount) : 0,
+    durationMs: (sampleCount / SAMPLE_RATE) * 1000
+  };
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export function attachRealtimeMock(
+  server: Server,
+  sessions: Map<string, MockSession>,
+  script: MockScript
+): void {
+  const wss = new WebSocketServer({
+    server,
+    path: '/v1/realtime',
+    // Clients authenticate with ['realtime', 'openai-insecure-api-key.<secret>']
+    handleProtocols: (protocols) => protocols.has('realtime') ? 'realtime' : false
+  });
+
+  let transcriptIndex = 0;
+  const nextTranscript = () => script.transcripts[transcriptIndex++ % script.transcripts.length];
+
+  wss.on('connection', (ws, req) => {
+    const protocols = (req.headers['sec-websocket-protocol'] || '').split(',').map(p => p.trim());
+    const secret = protocols.find(p => p.startsWith(API_KEY_PROTOCOL_PREFIX))?.slice(API_KEY_PROTOCOL_PREFIX.length);
+    const session = secret ? sessions.get(secret) : undefined;
+
+    const send = (event: Record<string, unknown>) => {
+      if (ws.readyState === WebSocket.OPEN) {
+        ws.send(JSON.stringify({ event_id: `event_${randomUUID()}`, ...event }));
+      }
+    };
+
+    if (!session) {
+      logger.warn('Mock realtime: rejected connection with unknown client secret');
+      send({
+        type: 'error',
+        error: { type: 'invalid_request_error', code: 'invalid_api_key', message: 'Unknown client secret' }
+      });
+      ws.close(4001, 'Unknown client secret');
+      return;
+    }
+
+    logger.info('Mock realtime: session connected', { sessionId: session.id });
+
+    const sessionConfig = {
+      id: session.id,
+      type: 'transcription',
+      audio: {
+        input: {
+          format: { type: 'audio/pcm', rate: SAMPLE_RATE },
+          transcription: { model: session.transcriptionModel, language: session.transcriptionLanguage },
+          turn_detection: { type: 'server_vad', ...session.turnDetection }
+        }
+      }
+    };
+    send({ type: 'session.created', session: sessionConfig });
+
+    const speechRms = session.turnDetection.threshold * SPEECH_RMS_AT_FULL_THRESHOLD;
+    let timelineMs = 0;          // Audio received on this connection
+    let bufferMs = 0;            // Audio since the last commit
+    let bufferHasSpeech = false;
+    let inSpeech = false;
+    let silenceMs = 0;
+    let currentItemId = `item_${randomUUID()}`;
+    let previousItemId: string | null = null;
+
+    // Transcripts complete in commit order, like the real service
+    let transcription = Promise.resolve();
+
+    const commit = () => {
+      const itemId = currentItemId;
+      const hasSpeech = bufferHasSpeech;
+      send({ type: 'input_audio_buffer.committed', item_id: itemId, previous_item_id: previousItemId });
+      send({
+        type: 'conversation.item.created',
+        previous_item_id: previousItemId,
+        item: { id: itemId, type: 'message', role: 'user', content: [{ type: 'input_audio', transcript: null }] }
+      });
+
+      previousItemId = itemId;
+      currentItemId = `item_${randomUUID()}`;
+      bufferMs = 0;
+      bufferHasSpeech = false;
+
+      // Silence-only buffers transcribe to nothing and do not consume a scripted line
+      const transcript = hasSpeech ? nextTranscript() : '';
+      transcription = transcription.then(async () => {
+        for (const word of transcript.split(/(?<= )/)) {
+          if (!word) continue;
+          await sleep(script.deltaIntervalMs);
+          send({ type: 'conversation.item.input_audio_transcription.delta', item_id: itemId, content_index: 0, delta: word });
+        }
+        send({ type: 'conversation.item.input_audio_transcription.completed', item_id: itemId, content_index: 0, transcript });
+      });
+    };
+
+    ws.on('message', (data) => {
+      let event;
+      try {
+        event = JSON.parse(data.toString());
+      } catch {
+        send({ type: 'error', error: { type: 'invalid_request_error', code: 'invalid_json', message: 'Invalid JSON' } });
+        return;
+      }
+
+      switch (event.type) {
+        case 'session.update':
+          send({ type: 'session.updated', session: sessionConfig });
+          break;
+
+        case 'input_audio_buffer.append': {
+          const { rms, durationMs } = pcm16Rms(event.audio || '');
+          timelineMs += durationMs;
+          bufferMs += durationMs;
+
+          if (rms >= speechRms) {
+            silenceMs = 0;
+            bufferHasSpeech = true;
+            if (!inSpeech) {
+              inSpeech = true;
+              send({
+                type: 'input_audio_buffer.speech_started',
+                audio_start_ms: Math.max(0, Math.round(timelineMs - durationMs - session.turnDetection.prefix_padding_ms)),
+                item_id: currentItemId
+              });
+            }
+          } else if (inSpeech) {
+            silenceMs += durationMs;
+            if (silenceMs >= session.turnDetection.silence_duration_ms) {
+              inSpeech = false;
+              send({ type: 'input_audio_buffer.speech_stopped', audio_end_ms: Math.round(timelineMs), item_id: currentItemId });
+              commit();
+            }
+          }
+          break;
+        }
+
+        case 'input_audio_buffer.commit':
+          if (bufferMs < MIN_COMMIT_MS) {
+            send({
+              type: 'error',
+              error: {
+                type: 'invalid_request_error',
+                code: 'input_audio_buffer_commit_empty',
+                message: `Error committing input audio buffer: buffer too small. Expected at least ${MIN_COMMIT_MS}ms of audio, but buffer only has ${Math.round(bufferMs)}ms of audio.`
+              }
+            });
+          } else {
+            inSpeech = false;
+            commit();
+          }
+          break;
+
+        case 'input_audio_buffer.clear':
+          bufferMs = 0;
+          bufferHasSpeech = false;
+          inSpeech = false;
+          send({ type: 'input_audio_buffer.cleared' });
+          break;
+
+        default:
+          send({
+            type: 'error',
+            error: { type: 'invalid_request_error', code: 'unknown_event', message: `Unsupported event type: ${event.type}` }
+          });
+      }
+    });
+
+    ws.on('close', () => {
+      logger.info('Mock realtime: session closed', { sessionId: session.id, audioMs: Math.round(timelineMs) });
+    });
+  });
+}
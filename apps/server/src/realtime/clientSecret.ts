@@ -0,0 +1,201 @@
+import { env } from '../env.js';
+import { logger } from '../utils/logger.js';
+import { ProviderRequestError } from '../utils/providerRequestError.js';
+
+// GA API response structure for /v1/realtime/client_secrets (transcription sessions)
+// Note: Structure is different from conversation sessions!
+interface GASessionResponse {
+  value: string;        // Ephemeral token at root level
+  expires_at: number;   // Token expiry at root level
+  session: {
+    type: string;
+    object: string;
+    id: string;
+    expires_at: number;
+    audio: object;
+  };
+}
+
+// VAD settings from client (optional, uses defaults if not provided)
+export interface VADSettingsRequest {
+  threshold?: number;        // 0.0-1.0, default 0.5
+  prefixPaddingMs?: number;  // default 300
+  silenceDurationMs?: number; // default 500
+}
+
+// Default VAD settings
+const DEFAULT_VAD: Required<VADSettingsRequest> = {
+  threshold: 0.5,
+  prefixPaddingMs: 300,
+  silenceDurationMs: 500
+};
+
+// NOTE: Model IS required for session creation, but cannot be changed via session.update
+// Using gpt-4o-mini-transcribe as default - OpenAI's efficient transcription model
+const TRANSCRIPTION_MODEL = 'gpt-4o-mini-transcribe';
+
+export const TRANSCRIPTION_MODELS = ['gpt-4o-mini-transcribe', 'gpt-4o-transcribe', 'whisper-1'] as const;
+export const NOISE_REDUCTION_TYPES = ['near_field', 'far_field', 'off'] as const;
+export const TURN_DETECTION_TYPES = ['server_vad', 'semantic_vad'] as const;
+
+// Transcription settings from client (optional, uses defaults if not provided)
+export interface TranscriptionSettingsRequest {
+  model?: string;
+  language?: string;       // ISO-639-1; empty string lets the model detect the language
+  prompt?: string;         // Vocabulary / style hint for the transcription model
+  noiseReduction?: typeof NOISE_REDUCTION_TYPES[number];
+  turnDetection?: typeof TURN_DETECTION_TYPES[number];
+}
+
+// Default transcription settings (English, close microphone)
+const DEFAULT_TRANSCRIPTION: Required<TranscriptionSettingsRequest> = {
+  model: TRANSCRIPTION_MODEL,
+  language: 'en',
+  prompt: '',
+  noiseReduction: 'near_field',
+  turnDetection: 'server_vad'
+};
+
+export interface TranscriptionClientSecret {
+  sessionId: string;
+  clientSecret: string;
+  expiresAt: number;
+  model: string;
+  vad: Required<VADSettingsRequest>;
+  transcription: Required<TranscriptionSettingsRequest>;
+}
+
+const isOneOf = <T extends string>(values: readonly T[], value: unknown): value is T =>
+  typeof value === 'string' && (values as readonly string[]).includes(value);
+
+/**
+ * Check client transcription settings; returns an error message, or null when valid
+ */
+export function validateTranscriptionSettings(request: unknown): string | null {
+  if (request === undefined || request === null) return null;
+  if (typeof request !== 'object') return 'transcription must be an object';
+
+  const settings = request as Record<string, unknown>;
+  if (settings.model !== undefined && !isOneOf(TRANSCRIPTION_MODELS, settings.model)) {
+    return `transcription.model must be one of ${TRANSCRIPTION_MODELS.join(', ')}`;
+  }
+  if (settings.language !== undefined && (typeof settings.language !== 'string' || !/^([a-z]{2})?$/.test(settings.language))) {
+    return 'transcription.language must be a two-letter ISO-639-1 code, or empty to auto-detect';
+  }
+  if (settings.prompt !== undefined && typeof settings.prompt !== 'string') {
+    return 'transcription.prompt must be a string';
+  }
+  if (settings.noiseReduction !== undefined && !isOneOf(NOISE_REDUCTION_TYPES, settings.noiseReduction)) {
+    return `transcription.noiseReduction must be one of ${NOISE_REDUCTION_TYPES.join(', ')}`;
+  }
+  if (settings.turnDetection !== undefined && !isOneOf(TURN_DETECTION_TYPES, settings.turnDetection)) {
+    return `transcription.turnDetection must be one of ${TURN_DETECTION_TYPES.join(', ')}`;
+  }
+  return null;
+}
+
+/**
+ * Fill unset transcription settings with the defaults
+ */
+export function resolveTranscriptionSettings(
+  request: TranscriptionSettingsRequest = {}
+): Required<TranscriptionSettingsRequest> {
+  return {
+    model: request.model ?? DEFAULT_TRANSCRIPTION.model,
+    language: request.language ?? DEFAULT_TRANSCRIPTION.language,
+    prompt: request.prompt ?? DEFAULT_TRANSCRIPTION.prompt,
+    noiseReduction: request.noiseReduction ?? DEFAULT_TRANSCRIPTION.noiseReduction,
+    turnDetection: request.turnDetection ?? DEFAULT_TRANSCRIPTION.turnDetection
+  };
+}
+
+/**
+ * The audio.input block of a transcription session, shared with the legacy session route
+ */
+export function buildTranscriptionInput(
+  vad: Required<VADSettingsRequest>,
+  transcription: Required<TranscriptionSettingsRequest>
+): Record<string, unknown> {
+  return {
+    format: {
+      type: 'audio/pcm',
+      rate: 24000
+    },
+    transcription: {
+      model: transcription.model,
+      // Omitted language = auto-detect
+      ...(transcription.language ? { language: transcription.language } : {}),
+      prompt: transcription.prompt
+    },
+    // Semantic VAD decides turns from the words, so the silence-based settings don't apply
+    turn_detection: transcription.turnDetection === 'semantic_vad'
+      ? { type: 'semantic_vad' }
+      : {
+        type: 'server_vad',
+        threshold: vad.threshold,
+        prefix_padding_ms: vad.prefixPaddingMs,
+        silence_duration_ms: vad.silenceDurationMs
+      },
+    noise_reduction: transcription.noiseReduction === 'off'
+      ? null
+      : { type: transcription.noiseReduction }
+  };
+}
+
+/**
+ * Mint an ephemeral client secret for a GA transcription session
+ * Shared by the direct session route and the WebSocket relay.
+ */
+export async function createTranscriptionClientSecret(
+  vadRequest: VADSettingsRequest = {},
+  transcriptionRequest: TranscriptionSettingsRequest = {}
+): Promise<TranscriptionClientSecret> {
+  const vad = {
+    threshold: vadRequest.threshold ?? DEFAULT_VAD.threshold,
+    prefixPaddingMs: vadRequest.prefixPaddingMs ?? DEFAULT_VAD.prefixPaddingMs,
+    silenceDurationMs: vadRequest.silenceDurationMs ?? DEFAULT_VAD.silenceDurationMs
+  };
+  const transcription = resolveTranscriptionSettings(transcriptionRequest);
+
+  // NOTE: A session-level model parameter is rejected for transcription sessions
+  // OpenAI error: "You must not provide a model parameter for transcription sessions."
+  // The transcription model goes in audio.input.transcription.model instead.
+  logger.info('Creating GA transcription session...', { vadSettings: vad, transcription });
+
+  // GA API: Use /v1/realtime/client_secrets endpoint with nested session structure
+  const fetchRes: globalThis.Response = await fetch(`${env.OPENAI_BASE_URL}/realtime/client_secrets`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${env.OPENAI_API_KEY}`,
+      'Content-Type': 'application/json',
+      // Note: No beta header for GA API
+    },
+    body: JSON.stringify({
+      session: {
+        type: 'transcription',
+        // Note: model is NOT at session level for transcription sessions
+        // It's specified in audio.input.transcription.model
+        audio: {
+          input: buildTranscriptionInput(vad, transcription)
+        }
+      }
+    }),
+  });
+
+  if (!fetchRes.ok) {
+    const errorText = await fetchRes.text();
+    logger.error('OpenAI API error', { status: fetchRes.status, error: errorText });
+    throw new ProviderRequestError(fetchRes.status, errorText);
+  }
+
+  const data = await fetchRes.json() as GASessionResponse;
+
+  return {
+    sessionId: data.session?.id,
+    clientSecret: data.value,
+    expiresAt: data.expires_at,
+    model: transcription.model,
+    vad,
+    transcription
+  };
+}
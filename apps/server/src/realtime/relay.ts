@@ -0,0 +1,198 @@
+import { Router } from 'express';
+import type { Request, Response as ExpressResponse } from 'express';
+import type { Server } from 'http';
+import { randomUUID } from 'crypto';
+import { WebSocketServer, WebSocket } from 'ws';
+import type { RawData } from 'ws';
+import { env } from '../env.js';
+import { logger } from '../utils/logger.js';
+import { ProviderRequestError } from '../utils/providerRequestError.js';
+import { createTranscriptionClientSecret, validateTranscriptionSettings } from './clientSecret.js';
+import type { VADSettingsRequest, TranscriptionSettingsRequest } from './clientSecret.js';
+import { createRelayRecorder } from './relayRecorder.js';
+
+/**
+ * Server-side relay for Realtime transcription (REALTIME_RELAY=true)
+ *
+ * 1. Browser POSTs /api/realtime/relay/session with its VAD and transcription settings
+ * 2. Server mints the OpenAI client secret and returns a one-time relay ticket
+ *    in its place (the OpenAI secret never reaches the browser)
+ * 3. Browser connects to ws://<server>/api/realtime/relay with the ticket as
+ *    its auth subprotocol, exactly as it would to OpenAI
+ * 4. Server opens the upstream socket and proxies events both ways, recording
+ *    event timings and the appended audio (see relayRecorder.ts)
+ */
+
+export const RELAY_PATH = '/api/realtime/relay';
+
+const API_KEY_PROTOCOL_PREFIX = 'openai-insecure-api-key.';
+
+// Tickets must be used within this window (the upstream secret lives longer)
+const TICKET_TTL_MS = 60000;
+
+interface RelayTicket {
+  sessionId: string;
+  upstreamSecret: string;
+}
+
+const tickets = new Map<string, RelayTicket>();
+
+export const relayRouter: Router = Router();
+
+relayRouter.post('/session', async (req: Request, res: ExpressResponse) => {
+  const startTime = Date.now();
+
+  if (!env.REALTIME_RELAY) {
+    res.status(404).json({ error: 'Realtime relay is disabled (set REALTIME_RELAY=true)' });
+    return;
+  }
+
+  const invalid = validateTranscriptionSettings(req.body?.transcription);
+  if (invalid) {
+    res.status(400).json({ error: 'Invalid transcription settings', message: invalid });
+    return;
+  }
+
+  try {
+    const vadRequest: VADSettingsRequest = req.body?.vad || {};
+    const transcriptionRequest: TranscriptionSettingsRequest = req.body?.transcription || {};
+    const session = await createTranscriptionClientSecret(vadRequest, transcriptionRequest);
+
+    const ticket = `relay_${randomUUID()}`;
+    tickets.set(ticket, { sessionId: session.sessionId, upstreamSecret: session.clientSecret });
+    setTimeout(() => tickets.delete(ticket), TICKET_TTL_MS).unref();
+
+    const latencyMs = Date.now() - startTime;
+    logger.info('Relay session created', { sessionId: session.sessionId, latencyMs });
+
+    // Same shape as /api/webrtc/session, with the ticket in place of the client secret
+    res.json({
+      sessionId: session.sessionId,
+      clientSecret: ticket,
+      expiresAt: session.expiresAt,
+      model: session.model,
+      transcription: session.transcription,
+      latencyMs
+    });
+  } catch (error) {
+    if (error instanceof ProviderRequestError) {
+      res.status(error.status).json({
+        error: 'Failed to create transcription session',
+        details: error.details
+      });
+      return;
+    }
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    logger.error('Failed to create relay session', { error: errorMessage });
+    res.status(500).json({
+      error: 'Internal server error',
+      message: errorMessage
+    });
+  }
+});
+
+function parseEvent(data: RawData): Record<string, unknown> | null {
+  try {
+    return JSON.parse(data.toString());
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Accept relay WebSocket connections on the API server
+ */
+export function attachRealtimeRelay(server: Server): void {
+  const wss = new WebSocketServer({
+    server,
+    path: RELAY_PATH,
+    handleProtocols: (protocols) => protocols.has('realtime') ? 'realtime' : false
+  });
+
+  wss.on('connection', (client, req) => {
+    const protocols = (req.headers['sec-websocket-protocol'] || '').split(',').map(p => p.trim());
+    const ticketId = protocols.find(p => p.startsWith(API_KEY_PROTOCOL_PREFIX))?.slice(API_KEY_PROTOCOL_PREFIX.length);
+    const ticket = ticketId ? tickets.get(ticketId) : undefined;
+
+    if (!ticketId || !ticket) {
+      logger.warn('Relay: rejected connection with unknown or expired ticket');
+      client.close(4001, 'Unknown or expired relay ticket');
+      return;
+    }
+    tickets.delete(ticketId);
+
+    const { sessionId } = ticket;
+    const recorder = createRelayRecorder(sessionId, env.RELAY_RECORDING_DIR);
+    const upstream = new WebSocket(`${env.OPENAI_REALTIME_URL}?intent=transcription`, [
+      'realtime',
+      `${API_KEY_PROTOCOL_PREFIX}${ticket.upstreamSecret}`
+    ]);
+
+    // Browser events sent before the upstream socket opens are held in order
+    const pending: string[] = [];
+
+    logger.info('Relay: client connected', { sessionId });
+
+    upstream.on('open', () => {
+      recorder.upstreamConnected();
+      pending.forEach(message => upstream.send(message));
+      pending.length = 0;
+    });
+
+    client.on('message', (data) => {
+      const message = data.toString();
+      const event = parseEvent(data);
+      if (event) recorder.record('client', event);
+
+      if (upstream.readyState === WebSocket.OPEN) {
+        upstream.send(message);
+      } else if (upstream.readyState === WebSocket.CONNECTING) {
+        pending.push(message);
+      }
+    });
+
+    upstream.on('message', (data) => {
+      const event = parseEvent(data);
+      if (event) recorder.record('upstream', event);
+
+      if (client.readyState === WebSocket.OPEN) {
+        client.send(data.toString());
+      }
+    });
+
+    let closed = false;
+    const closeBoth = (reason: string, code = 1000) => {
+      if (closed) return;
+      closed = true;
+
+      for (const socket of [client, upstream]) {
+        if (socket.readyState === WebSocket.OPEN || socket.readyState === WebSocket.CONNECTING) {
+          // Reserved codes such as 1005/1006 cannot be sent
+          const sendable = code === 1000 || code === 1011 || (code >= 4000 && code < 5000);
+          socket.close(sendable ? code : 1000, reason.slice(0, 120));
+        }
+      }
+
+      recorder.finish(reason).then(summary => {
+        logger.info('Relay: session closed', { ...summary, reason });
+      });
+    };
+
+    const describe = (side: string, code: number, reason: Buffer) =>
+      `${side} closed (${[code, reason.toString()].filter(Boolean).join(' ')})`;
+
+    client.on('close', (code, reason) => closeBoth(describe('client', code, reason)));
+    upstream.on('close', (code, reason) => closeBoth(describe('upstream', code, reason), code));
+    client.on('error', (error) => {
+      logger.error('Relay: client socket error', { sessionId, error: error.message });
+      closeBoth('client error', 1011);
+    });
+    upstream.on('error', (error) => {
+      logger.error('Relay: upstream socket error', { sessionId, error: error.message });
+      closeBoth('upstream error', 4502);
+    });
+  });
+
+  logger.info(`Realtime relay listening on ${RELAY_PATH}`);
+}
@@ -0,0 +1,154 @@
+import { mkdir, writeFile } from 'fs/promises';
+import { resolve } from 'path';
+import { logger } from '../utils/logger.js';
+
+/**
+ * Audit trail for one relayed transcription session
+ *
+ * Keeps every event that crossed the relay (audio appends are counted, not
+ * listed), the relay-side timings and the raw PCM16 the browser sent. On
+ * finish, writes <sessionId>.wav and <sessionId>.json to the recording
+ * directory (skipped when no directory is configured).
+ */
+
+const SAMPLE_RATE = 24000;
+
+type Direction = 'client' | 'upstream';
+
+interface AuditEvent {
+  atMs: number; // Since the browser connected
+  direction: Direction;
+  type: string;
+  itemId?: string;
+  transcript?: string;
+  error?: unknown;
+}
+
+export interface RelaySummary {
+  sessionId: string;
+  durationMs: number;
+  appendCount: number;
+  audioMs: number;
+  upstreamConnectMs: number | null;
+  sessionCreatedMs: number | null;
+  firstDeltaMs: number | null;
+  completedCount: number;
+  errorCount: number;
+}
+
+export interface RelayRecorder {
+  upstreamConnected: () => void;
+  record: (direction: Direction, event: Record<string, unknown>) => void;
+  finish: (closeReason: string) => Promise<RelaySummary>;
+}
+
+function encodeWav(pcm: Buffer, sampleRate: number): Buffer {
+  const header = Buffer.alloc(44);
+  header.write('RIFF', 0);
+  header.writeUInt32LE(36 + pcm.length, 4);
+  header.write('WAVE', 8);
+  header.write('fmt ', 12);
+  header.writeUInt32LE(16, 16);             // fmt chunk size
+  header.writeUInt16LE(1, 20);              // PCM
+  header.writeUInt16LE(1, 22);              // Mono
+  header.writeUInt32LE(sampleRate, 24);
+  header.writeUInt32LE(sampleRate * 2, 28); // Byte rate
+  header.writeUInt16LE(2, 32);              // Block align
+  header.writeUInt16LE(16, 34);             // Bits per sample
+  header.write('data', 36);
+  header.writeUInt32LE(pcm.length, 40);
+  return Buffer.concat([header, pcm]);
+}
+
+export function createRelayRecorder(sessionId: string, recordingDir: string): RelayRecorder {
+  const startTime = Date.now();
+  const events: AuditEvent[] = [];
+  const audioChunks: Buffer[] = [];
+  let audioBytes = 0;
+  let appendCount = 0;
+  let upstreamConnectMs: number | null = null;
+  let sessionCreatedMs: number | null = null;
+  let firstDeltaMs: number | null = null;
+  let completedCount = 0;
+  let errorCount = 0;
+
+  const elapsed = () => Date.now() - startTime;
+
+  const record = (direction: Direction, event: Record<string, unknown>) => {
+    const type = String(event.type ?? 'unknown');
+
+    if (type === 'input_audio_buffer.append') {
+      appendCount++;
+      if (recordingDir && typeof event.audio === 'string') {
+        const chunk = Buffer.from(event.audio, 'base64');
+        audioChunks.push(chunk);
+        audioBytes += chunk.length;
+      }
+      return;
+    }
+
+    if (type === 'conversation.item.input_audio_transcription.delta') {
+      // Deltas are summarized by the completed transcript
+      if (firstDeltaMs === null) firstDeltaMs = elapsed();
+      return;
+    }
+
+    if (type === 'session.created' || type === 'transcription_session.created') {
+      sessionCreatedMs ??= elapsed();
+    } else if (type === 'conversation.item.input_audio_transcription.completed') {
+      completedCount++;
+    } else if (type === 'error') {
+      errorCount++;
+    }
+
+    events.push({
+      atMs: elapsed(),
+      direction,
+      type,
+      ...(typeof event.item_id === 'string' ? { itemId: event.item_id } : {}),
+      ...(typeof event.transcript === 'string' ? { transcript: event.transcript } : {}),
+      ...(event.error !== undefined ? { error: event.error } : {})
+    });
+  };
+
+  const finish = async (closeReason: string): Promise<RelaySummary> => {
+    const summary: RelaySummary = {
+      sessionId,
+      durationMs: elapsed(),
+      appendCount,
+      audioMs: Math.round((audioBytes / 2 / SAMPLE_RATE) * 1000),
+      upstreamConnectMs,
+      sessionCreatedMs,
+      firstDeltaMs,
+      completedCount,
+      errorCount
+    };
+
+    if (recordingDir) {
+      const dir = resolve(process.cwd(), '../..', recordingDir);
+      try {
+        await mkdir(dir, { recursive: true });
+        await writeFile(
+          resolve(dir, `${sessionId}.json`),
+          JSON.stringify({ ...summary, startedAt: new Date(startTime).toISOString(), closeReason, events }, null, 2)
+        );
+        if (audioBytes > 0) {
+          await writeFile(resolve(dir, `${sessionId}.wav`), encodeWav(Buffer.concat(audioChunks), SAMPLE_RATE));
+        }
+      } catch (error) {
+        logger.error('Failed to write relay recording', {
+          sessionId,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    }
+
+    return summary;
+  };
+
+  return {
+    upstreamConnected: () => { upstreamConnectMs = elapsed(); },
+    record,
+    finish
+  };
+}
@@ -1,135 +1,65 @@
 import { Router } from 'express';
 import type { Request, Response as ExpressResponse } from 'express';
-import { env } from '../env.js';
 import { logger } from '../utils/logger.js';
+import { ProviderRequestError } from '../utils/providerRequestError.js';
+import { createTranscriptionClientSecret, validateTranscriptionSettings } from '../realtime/clientSecret.js';
+import type { VADSettingsRequest, TranscriptionSettingsRequest } from '../realtime/clientSecret.js';
 
 const router: Router = Router();
 
-// GA API response structure for /v1/realtime/client_secrets (transcription sessions)
-// Note: Structure is different from conversation sessions!
-interface GASessionResponse {
-  value: string;        // Ephemeral token at root level
-  expires_at: number;   // Token expiry at root level
-  session: {
-    type: string;
-    object: string;
-    id: string;
-    expires_at: number;
-    audio: object;
-  };
-}
-
-// VAD settings from client (optional, uses defaults if not provided)
-interface VADSettingsRequest {
-  threshold?: number;        // 0.0-1.0, default 0.5
-  prefixPaddingMs?: number;  // default 300
-  silenceDurationMs?: number; // default 500
-}
-
-// Default VAD settings
-const DEFAULT_VAD: Required<VADSettingsRequest> = {
-  threshold: 0.5,
-  prefixPaddingMs: 300,
-  silenceDurationMs: 500
-};
-
-// NOTE: Model selection is NOT supported for transcription sessions via /v1/realtime/client_secrets
+// NOTE: A session-level model parameter is rejected by /v1/realtime/client_secrets
 // OpenAI error: "You must not provide a model parameter for transcription sessions."
-// The transcription model is determined automatically by OpenAI.
+// The transcription model is sent in audio.input.transcription.model instead.
 // See: https://platform.openai.com/docs/guides/realtime
 
-// POST endpoint to accept VAD settings from client
+// POST endpoint to accept VAD and transcription settings from client
 router.post('/', async (req: Request, res: ExpressResponse) => {
   const startTime = Date.now();
 
+  const invalid = validateTranscriptionSettings(req.body?.transcription);
+  if (invalid) {
+    res.status(400).json({ error: 'Invalid transcription settings', message: invalid });
+    return;
+  }
+
   try {
-    // Extract VAD settings from request body, use defaults if not provided
+    // Extract VAD and transcription settings from request body, use defaults if not provided
     const vadRequest: VADSettingsRequest = req.body?.vad || {};
-    const vad = {
-      threshold: vadRequest.threshold ?? DEFAULT_VAD.threshold,
-      prefixPaddingMs: vadRequest.prefixPaddingMs ?? DEFAULT_VAD.prefixPaddingMs,
-      silenceDurationMs: vadRequest.silenceDurationMs ?? DEFAULT_VAD.silenceDurationMs
-    };
-
-    // NOTE: Model selection is NOT supported for transcription sessions via client_secrets
-    // OpenAI error: "You must not provide a model parameter for transcription sessions."
-    // The transcription model is determined automatically by OpenAI.
-    logger.info('Creating GA transcription session...', { vadSettings: vad });
-
-    // GA API: Use /v1/realtime/client_secrets endpoint with nested session structure
-    const fetchRes: globalThis.Response = await fetch('https://api.openai.com/v1/realtime/client_secrets', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${env.OPENAI_API_KEY}`,
-        'Content-Type': 'application/json',
-        // Note: No beta header for GA API
-      },
-      body: JSON.stringify({
-        session: {
-          type: 'transcription',
-          // Note: model is NOT at session level for transcription sessions
-          // It's specified in audio.input.transcription.model
-          audio: {
-            input: {
-              format: {
-                type: 'audio/pcm',
-                rate: 24000
-              },
-              transcription: {
-                // NOTE: Model IS required for session creation, but cannot be changed via session.update
-                // Using gpt-4o-mini-transcribe as default - OpenAI's efficient transcription model
-                model: 'gpt-4o-mini-transcribe',
-                language: 'en',  // HARDCODED: English only - ensures English output
-                prompt: ''
-              },
-              turn_detection: {
-                type: 'server_vad',
-                threshold: vad.threshold,
-                prefix_padding_ms: vad.prefixPaddingMs,
-                silence_duration_ms: vad.silenceDurationMs
-              },
-              noise_reduction: {
-                type: 'near_field'  // Optimized for close microphone input
-              }
-            }
-          }
-        }
-      }),
-    });
-
-    if (!fetchRes.ok) {
-      const errorText = await fetchRes.text();
-      logger.error('OpenAI API error', { status: fetchRes.status, error: errorText });
-      res.status(fetchRes.status).json({
-        error: 'Failed to create transcription session',
-        details: errorText
-      });
-      return;
-    }
-
-    const data = await fetchRes.json() as GASessionResponse;
+    const transcriptionRequest: TranscriptionSettingsRequest = req.body?.transcription || {};
+    const session = await createTranscriptionClientSecret(vadRequest, transcriptionRequest);
     const latencyMs = Date.now() - startTime;
 
     logger.info('GA Transcription session created', {
-      sessionId: data.session?.id,
+      sessionId: session.sessionId,
       latencyMs,
-      expiresAt: data.expires_at,
-      language: 'en'
-      // NOTE: Model is determined by OpenAI, not selectable for transcription sessions
+      expiresAt: session.expiresAt,
+      model: session.model,
+      language: session.transcription.language || 'auto',
+      noiseReduction: session.transcription.noiseReduction,
+      turnDetection: session.transcription.turnDetection
     });
 
     // Return only what the client needs (never expose the full API key)
     // GA API structure: value/expires_at at root, session.id for session ID
     // IMPORTANT: Use camelCase field names to match frontend expectations
     res.json({
-      sessionId: data.session?.id,
-      clientSecret: data.value,
-      expiresAt: data.expires_at,
-      model: 'gpt-4o-mini-transcribe',
+      sessionId: session.sessionId,
+      clientSecret: session.clientSecret,
+      expiresAt: session.expiresAt,
+      model: session.model,
+      transcription: session.transcription,
       latencyMs
     });
 
   } catch (error) {
+    if (error instanceof ProviderRequestError) {
+      res.status(error.status).json({
+        error: 'Failed to create transcription session',
+        details: error.details
+      });
+      return;
+    }
+
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
     logger.error('Failed to create transcription session', { error: errorMessage });
     res.status(500).json({
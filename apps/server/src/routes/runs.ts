@@ -0,0 +1,167 @@
+import { Router } from 'express';
+import type { Request, Response as ExpressResponse } from 'express';
+import { logger } from '../utils/logger.js';
+import { getRunStore, RUN_STATUSES } from '../storage/runStore.js';
+import type { StoredRun, RunQuery } from '../storage/runStore.js';
+
+const router: Router = Router();
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 500;
+
+// Keeps each sync request under the 1mb JSON body limit
+const MAX_SYNC_BATCH = 100;
+
+/**
+ * Why a body is not a storable run, or null if it is
+ */
+function validateRun(body: unknown): string | null {
+  if (!body || typeof body !== 'object') return 'run must be an object';
+  const run = body as Record<string, unknown>;
+
+  for (const field of ['id', 'questionId', 'profileId', 'timestamp']) {
+    if (typeof run[field] !== 'string' || run[field] === '') {
+      return `${field} must be a non-empty string`;
+    }
+  }
+  if (Number.isNaN(new Date(run.timestamp as string).getTime())) {
+    return 'timestamp must be a valid date';
+  }
+  if (!RUN_STATUSES.includes(run.status as StoredRun['status'])) {
+    return `status must be one of ${RUN_STATUSES.join(', ')}`;
+  }
+  return null;
+}
+
+function parseDateParam(value: unknown): string | undefined | null {
+  if (typeof value !== 'string' || value === '') return undefined;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : 'Unknown error';
+}
+
+// GET /api/runs?profileId=&questionId=&status=&from=&to=&limit=&offset=
+router.get('/', (req: Request, res: ExpressResponse) => {
+  const from = parseDateParam(req.query.from);
+  const to = parseDateParam(req.query.to);
+  if (from === null || to === null) {
+    res.status(400).json({ error: 'from and to must be valid dates' });
+    return;
+  }
+
+  const limit = parseInt(String(req.query.limit ?? DEFAULT_PAGE_SIZE), 10);
+  const offset = parseInt(String(req.query.offset ?? 0), 10);
+  if (!Number.isInteger(limit) || limit < 1 || !Number.isInteger(offset) || offset < 0) {
+    res.status(400).json({ error: 'limit must be a positive integer and offset a non-negative integer' });
+    return;
+  }
+
+  const query: RunQuery = {
+    profileId: typeof req.query.profileId === 'string' ? req.query.profileId : undefined,
+    questionId: typeof req.query.questionId === 'string' ? req.query.questionId : undefined,
+    status: typeof req.query.status === 'string' ? req.query.status : undefined,
+    from,
+    to,
+    limit: Math.min(limit, MAX_PAGE_SIZE),
+    offset
+  };
+
+  try {
+    res.json(getRunStore().list(query));
+  } catch (error) {
+    logger.error('Failed to list runs', { error: errorMessage(error) });
+    res.status(500).json({ error: 'Failed to list runs', message: errorMessage(error) });
+  }
+});
+
+// POST /api/runs/sync - bulk import of local history; runs already stored are left untouched
+router.post('/sync', (req: Request, res: ExpressResponse) => {
+  const runs: unknown = req.body?.runs;
+  if (!Array.isArray(runs)) {
+    res.status(400).json({ error: 'runs must be an array' });
+    return;
+  }
+  if (runs.length > MAX_SYNC_BATCH) {
+    res.status(400).json({ error: `At most ${MAX_SYNC_BATCH} runs per sync request` });
+    return;
+  }
+
+  const valid: StoredRun[] = [];
+  const rejected: Array<{ id?: unknown; error: string }> = [];
+  for (const run of runs) {
+    const problem = validateRun(run);
+    if (problem) {
+      rejected.push({ id: (run as Record<string, unknown> | null)?.id, error: problem });
+    } else {
+      valid.push(run as StoredRun);
+    }
+  }
+
+  try {
+    const result = getRunStore().insertMissing(valid);
+    logger.info('Runs synced', { ...result, rejected: rejected.length });
+    res.json({ ...result, rejected });
+  } catch (error) {
+    logger.error('Failed to sync runs', { error: errorMessage(error) });
+    res.status(500).json({ error: 'Failed to sync runs', message: errorMessage(error) });
+  }
+});
+
+// GET /api/runs/:id
+router.get('/:id', (req: Request, res: ExpressResponse) => {
+  const run = getRunStore().get(req.params.id);
+  if (!run) {
+    res.status(404).json({ error: 'Run not found' });
+    return;
+  }
+  res.json(run);
+});
+
+// POST /api/runs - create (or replace) a run
+router.post('/', (req: Request, res: ExpressResponse) => {
+  const problem = validateRun(req.body);
+  if (problem) {
+    res.status(400).json({ error: 'Invalid run', details: problem });
+    return;
+  }
+
+  try {
+    getRunStore().upsert(req.body as StoredRun);
+    res.status(201).json(req.body);
+  } catch (error) {
+    logger.error('Failed to save run', { error: errorMessage(error) });
+    res.status(500).json({ error: 'Failed to save run', message: errorMessage(error) });
+  }
+});
+
+// PUT /api/runs/:id - replace an existing run
+router.put('/:id', (req: Request, res: ExpressResponse) => {
+  const problem = validateRun(req.body);
+  if (problem || req.body.id !== req.params.id) {
+    res.status(400).json({ error: 'Invalid run', details: problem ?? 'id does not match the URL' });
+    return;
+  }
+
+  const store = getRunStore();
+  if (!store.get(req.params.id)) {
+    res.status(404).json({ error: 'Run not found' });
+    return;
+  }
+
+  store.upsert(req.body as StoredRun);
+  res.json(req.body);
+});
+
+// DELETE /api/runs/:id
+router.delete('/:id', (req: Request, res: ExpressResponse) => {
+  if (!getRunStore().remove(req.params.id)) {
+    res.status(404).json({ error: 'Run not found' });
+    return;
+  }
+  res.status(204).end();
+});
+
+export default router;
@@ -0,0 +1,76 @@
+import express, { Router } from 'express';
+import type { Request, Response as ExpressResponse } from 'express';
+import { logger } from '../utils/logger.js';
+import { ProviderRequestError } from '../utils/providerRequestError.js';
+import { getSttProvider, isSttProviderId, listSttProviders, transcribeFile } from '../stt/providers.js';
+
+const router: Router = Router();
+
+// Same ceiling as the OpenAI transcription API
+const MAX_AUDIO_BYTES = '25mb';
+
+// Transcription providers and whether the server has credentials for them
+router.get('/providers', (_req: Request, res: ExpressResponse) => {
+  res.json({ providers: listSttProviders() });
+});
+
+/**
+ * Record-then-transcribe: the body is the recording as WAV; provider, model,
+ * language and prompt come from the query string
+ */
+router.post(
+  '/transcribe',
+  express.raw({ type: ['audio/wav', 'audio/x-wav', 'application/octet-stream'], limit: MAX_AUDIO_BYTES }),
+  async (req: Request, res: ExpressResponse) => {
+    const startTime = Date.now();
+    const providerId = req.query.provider ?? 'openai-file';
+    if (!isSttProviderId(providerId)) {
+      res.status(400).json({ error: 'Unknown transcription provider', message: `Unknown provider "${String(providerId)}"` });
+      return;
+    }
+    if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+      res.status(400).json({ error: 'Missing audio', message: 'POST the recording as audio/wav' });
+      return;
+    }
+
+    const query = (name: string) => typeof req.query[name] === 'string' ? req.query[name] as string : undefined;
+
+    try {
+      const provider = getSttProvider(providerId);
+      const result = await transcribeFile(provider, req.body, {
+        model: query('model'),
+        language: query('language'),
+        prompt: query('prompt')
+      });
+      const latencyMs = Date.now() - startTime;
+
+      logger.info('File transcription complete', {
+        provider: provider.id,
+        model: result.model,
+        audioBytes: req.body.length,
+        transcriptLength: result.text.length,
+        latencyMs
+      });
+
+      res.json({ transcript: result.text, provider: provider.id, model: result.model, latencyMs });
+    } catch (error) {
+      if (error instanceof ProviderRequestError) {
+        res.status(error.status).json({
+          error: 'Failed to transcribe audio',
+          provider: error.provider,
+          details: error.details
+        });
+        return;
+      }
+
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logger.error('Failed to transcribe audio', { error: errorMessage });
+      res.status(500).json({
+        error: 'Internal server error',
+        message: errorMessage
+      });
+    }
+  }
+);
+
+export default router;
@@ -2,6 +2,8 @@ import { Router } from 'express';
 import type { Request, Response as ExpressResponse } from 'express';
 import { env } from '../env.js';
 import { logger } from '../utils/logger.js';
+import { buildTranscriptionInput, resolveTranscriptionSettings, validateTranscriptionSettings } from '../realtime/clientSecret.js';
+import type { TranscriptionSettingsRequest } from '../realtime/clientSecret.js';
 
 // Type for OpenAI transcription session response
 interface TranscriptionSessionResponse {
@@ -48,10 +50,16 @@ const router: Router = Router();
  */
 
 // POST /api/webrtc/session - Get ephemeral token for WebSocket transcription
-// Accepts optional VAD settings in request body
+// Accepts optional VAD and transcription settings in request body
 router.post('/', async (req: Request, res: ExpressResponse) => {
   const startTime = Date.now();
 
+  const invalid = validateTranscriptionSettings(req.body?.transcription);
+  if (invalid) {
+    res.status(400).json({ error: 'Invalid transcription settings', message: invalid });
+    return;
+  }
+
   try {
     // Extract VAD settings from request body, use defaults if not provided
     const vadRequest: VADSettingsRequest = req.body?.vad || {};
@@ -61,14 +69,19 @@ router.post('/', async (req: Request, res: ExpressResponse) => {
       silenceDurationMs: vadRequest.silenceDurationMs ?? DEFAULT_VAD.silenceDurationMs
     };
 
+    // This route has always defaulted to gpt-4o-transcribe
+    const transcriptionRequest: TranscriptionSettingsRequest = req.body?.transcription || {};
+    const transcription = resolveTranscriptionSettings({ model: 'gpt-4o-transcribe', ...transcriptionRequest });
+
     logger.info('Creating ephemeral token for transcription session', {
-      vadSettings: vad
+      vadSettings: vad,
+      transcription
     });
 
     // Create transcription session with OpenAI
     // Uses /v1/realtime/transcription_sessions for pure transcription (no AI responses)
     // NOTE: Using the documented nested audio.input format for transcription sessions
-    const fetchRes: globalThis.Response = await fetch('https://api.openai.com/v1/realtime/transcription_sessions', {
+    const fetchRes: globalThis.Response = await fetch(`${env.OPENAI_BASE_URL}/realtime/transcription_sessions`, {
       method: 'POST',
       headers: {
         'Authorization': `Bearer ${env.OPENAI_API_KEY}`,
@@ -77,25 +90,7 @@ router.post('/', async (req: Request, res: ExpressResponse) => {
       body: JSON.stringify({
         // New nested format per transcription session docs
         audio: {
-          input: {
-            format: {
-              type: 'audio/pcm',
-              rate: 24000
-            },
-            transcription: {
-              model: 'gpt-4o-transcribe',
-              language: 'en'
-            },
-            turn_detection: {
-              type: 'server_vad',
-              threshold: vad.threshold,
-              prefix_padding_ms: vad.prefixPaddingMs,
-              silence_duration_ms: vad.silenceDurationMs
-            },
-            noise_reduction: {
-              type: 'near_field'
-            }
-          }
+          input: buildTranscriptionInput(vad, transcription)
         }
       }),
     });
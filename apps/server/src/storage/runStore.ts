@@ -0,0 +1,172 @@
+import Database from 'better-sqlite3';
+import { mkdirSync } from 'fs';
+import { dirname, resolve } from 'path';
+import { env } from '../env.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * SQLite-backed TestRun store
+ *
+ * Runs are stored whole as JSON, with the fields the API filters and sorts on
+ * (profile, question, status, timestamp) copied into indexed columns.
+ * Timestamps are ISO-8601 UTC strings, so they compare correctly as text.
+ */
+
+export const RUN_STATUSES = ['success', 'timeout', 'error'] as const;
+
+// The server only relies on these fields; everything else is stored as-is
+export interface StoredRun {
+  id: string;
+  questionId: string;
+  profileId: string;
+  timestamp: string;
+  status: typeof RUN_STATUSES[number];
+  [key: string]: unknown;
+}
+
+export interface RunQuery {
+  profileId?: string;
+  questionId?: string;
+  status?: string;
+  from?: string;  // ISO timestamp, inclusive
+  to?: string;    // ISO timestamp, inclusive
+  limit: number;
+  offset: number;
+}
+
+export interface RunPage {
+  runs: StoredRun[];
+  total: number;
+  limit: number;
+  offset: number;
+}
+
+export interface RunStore {
+  list: (query: RunQuery) => RunPage;
+  get: (id: string) => StoredRun | undefined;
+  upsert: (run: StoredRun) => void;
+  insertMissing: (runs: StoredRun[]) => { inserted: number; skipped: number };
+  remove: (id: string) => boolean;
+}
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS runs (
+    id TEXT PRIMARY KEY,
+    timestamp TEXT NOT NULL,
+    profile_id TEXT NOT NULL,
+    question_id TEXT NOT NULL,
+    status TEXT NOT NULL,
+    data TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS runs_timestamp ON runs (timestamp);
+  CREATE INDEX IF NOT EXISTS runs_profile ON runs (profile_id, timestamp);
+  CREATE INDEX IF NOT EXISTS runs_question ON runs (question_id, timestamp);
+`;
+
+export function createRunStore(dbPath: string): RunStore {
+  mkdirSync(dirname(dbPath), { recursive: true });
+  const db = new Database(dbPath);
+  db.pragma('journal_mode = WAL');
+  db.exec(SCHEMA);
+
+  const toRow = (run: StoredRun) => ({
+    id: run.id,
+    timestamp: new Date(run.timestamp).toISOString(),
+    profile_id: run.profileId,
+    question_id: run.questionId,
+    status: run.status,
+    data: JSON.stringify(run),
+    updated_at: new Date().toISOString()
+  });
+
+  const upsertStmt = db.prepare(`
+    INSERT INTO runs (id, timestamp, profile_id, question_id, status, data, updated_at)
+    VALUES (@id, @timestamp, @profile_id, @question_id, @status, @data, @updated_at)
+    ON CONFLICT(id) DO UPDATE SET
+      timestamp = excluded.timestamp,
+      profile_id = excluded.profile_id,
+      question_id = excluded.question_id,
+      status = excluded.status,
+      data = excluded.data,
+      updated_at = excluded.updated_at
+  `);
+  const insertIgnoreStmt = db.prepare(`
+    INSERT OR IGNORE INTO runs (id, timestamp, profile_id, question_id, status, data, updated_at)
+    VALUES (@id, @timestamp, @profile_id, @question_id, @status, @data, @updated_at)
+  `);
+  const getStmt = db.prepare<[string], { data: string }>('SELECT data FROM runs WHERE id = ?');
+  const deleteStmt = db.prepare<[string]>('DELETE FROM runs WHERE id = ?');
+
+  const insertMissing = db.transaction((runs: StoredRun[]) => {
+    let inserted = 0;
+    for (const run of runs) {
+      inserted += insertIgnoreStmt.run(toRow(run)).changes;
+    }
+    return { inserted, skipped: runs.length - inserted };
+  });
+
+  const list = (query: RunQuery): RunPage => {
+    const clauses: string[] = [];
+    const params: Record<string, string | number> = {};
+
+    if (query.profileId) {
+      clauses.push('profile_id = @profileId');
+      params.profileId = query.profileId;
+    }
+    if (query.questionId) {
+      clauses.push('question_id = @questionId');
+      params.questionId = query.questionId;
+    }
+    if (query.status) {
+      clauses.push('status = @status');
+      params.status = query.status;
+    }
+    if (query.from) {
+      clauses.push('timestamp >= @from');
+      params.from = query.from;
+    }
+    if (query.to) {
+      clauses.push('timestamp <= @to');
+      params.to = query.to;
+    }
+
+    const where = clauses.length > 0 ? `WHERE ${clauses.join(' AND ')}` : '';
+    const { total } = db.prepare(`SELECT COUNT(*) AS total FROM runs ${where}`).get(params) as { total: number };
+    const rows = db.prepare(
+      `SELECT data FROM runs ${where} ORDER BY timestamp DESC, id DESC LIMIT @limit OFFSET @offset`
+    ).all({ ...params, limit: query.limit, offset: query.offset }) as Array<{ data: string }>;
+
+    return {
+      runs: rows.map(row => JSON.parse(row.data) as StoredRun),
+      total,
+      limit: query.limit,
+      offset: query.offset
+    };
+  };
+
+  return {
+    list,
+    get: (id) => {
+      const row = getStmt.get(id);
+      return row ? JSON.parse(row.data) as StoredRun : undefined;
+    },
+    upsert: (run) => { upsertStmt.run(toRow(run)); },
+    insertMissing: (runs) => insertMissing(runs),
+    remove: (id) => deleteStmt.run(id).changes > 0
+  };
+}
+
+let store: RunStore | null = null;
+
+/**
+ * Shared store, opened on first use at RUNS_DB_PATH (relative to the project root)
+ */
+export function getRunStore(): RunStore {
+  if (!store) {
+    const dbPath = resolve(process.cwd(), '../..', env.RUNS_DB_PATH);
+    store = createRunStore(dbPath);
+    logger.info('Run store opened', { path: dbPath });
+  }
+  return store;
+}
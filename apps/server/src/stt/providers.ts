@@ -0,0 +1,177 @@
+import { env } from '../env.js';
+import { logger } from '../utils/logger.js';
+import { ProviderRequestError } from '../utils/providerRequestError.js';
+
+/**
+ * Speech-to-text providers
+ *
+ * Streaming transcription goes through the OpenAI Realtime session routes
+ * (client secrets and the relay). File providers transcribe a finished
+ * recording: the browser records, then posts the WAV to /api/stt/transcribe,
+ * which forwards it here. Every provider returns plain text, so runs from
+ * different engines score and store the same way.
+ */
+
+export type SttProviderId = 'openai-realtime' | 'openai-file' | 'local-whisper';
+
+export interface FileTranscriptionOptions {
+  model?: string;
+  language?: string;
+  prompt?: string;
+}
+
+export interface FileTranscription {
+  text: string;
+  model: string;
+}
+
+export interface SttProvider {
+  id: SttProviderId;
+  label: string;
+  mode: 'streaming' | 'file';
+  defaultModel: string;
+  // Name of the env var that enables the provider, for error messages
+  requiredEnv: string;
+  isConfigured(): boolean;
+  // File providers only
+  transcribe?(audio: Buffer, options: FileTranscriptionOptions): Promise<FileTranscription>;
+}
+
+/**
+ * POST a multipart form and return the parsed JSON body; failures are thrown as ProviderRequestError
+ */
+async function postForm(providerId: SttProviderId, url: string, form: FormData, headers: Record<string, string>): Promise<unknown> {
+  let fetchRes: globalThis.Response;
+  try {
+    fetchRes = await fetch(url, { method: 'POST', headers, body: form });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    logger.error('Transcription provider unreachable', { provider: providerId, error: message });
+    throw new ProviderRequestError(502, message, providerId);
+  }
+
+  if (!fetchRes.ok) {
+    const errorText = await fetchRes.text();
+    logger.error('Transcription provider error', { provider: providerId, status: fetchRes.status, error: errorText });
+    throw new ProviderRequestError(fetchRes.status, errorText, providerId);
+  }
+
+  return fetchRes.json();
+}
+
+// Form fields shared by the OpenAI transcription API and compatible servers
+function openaiTranscriptionForm(audio: Buffer, model: string, options: FileTranscriptionOptions): FormData {
+  const form = new FormData();
+  form.append('file', new Blob([audio], { type: 'audio/wav' }), 'recording.wav');
+  if (model) form.append('model', model);
+  if (options.language) form.append('language', options.language);
+  if (options.prompt) form.append('prompt', options.prompt);
+  form.append('response_format', 'json');
+  return form;
+}
+
+const openaiRealtimeProvider: SttProvider = {
+  id: 'openai-realtime',
+  label: 'OpenAI Realtime (streaming)',
+  mode: 'streaming',
+  defaultModel: 'gpt-4o-mini-transcribe',
+  requiredEnv: 'OPENAI_API_KEY',
+  isConfigured: () => !!env.OPENAI_API_KEY
+};
+
+const openaiFileProvider: SttProvider = {
+  id: 'openai-file',
+  label: 'OpenAI transcription API (record then transcribe)',
+  mode: 'file',
+  defaultModel: 'gpt-4o-mini-transcribe',
+  requiredEnv: 'OPENAI_API_KEY',
+  isConfigured: () => !!env.OPENAI_API_KEY,
+  async transcribe(audio, options) {
+    const model = options.model || this.defaultModel;
+    const data = await postForm(
+      this.id,
+      `${env.OPENAI_BASE_URL}/audio/transcriptions`,
+      openaiTranscriptionForm(audio, model, options),
+      { 'Authorization': `Bearer ${env.OPENAI_API_KEY}` }
+    ) as { text?: string };
+    return { text: data.text ?? '', model };
+  }
+};
+
+// whisper.cpp's example server (POST /inference), or an OpenAI-compatible
+// server such as faster-whisper-server / speaches (POST /audio/transcriptions)
+const localWhisperProvider: SttProvider = {
+  id: 'local-whisper',
+  label: 'Local Whisper (record then transcribe)',
+  mode: 'file',
+  get defaultModel() {
+    return env.LOCAL_STT_MODEL || (env.LOCAL_STT_API === 'openai' ? '' : 'whisper.cpp');
+  },
+  requiredEnv: 'LOCAL_STT_BASE_URL',
+  isConfigured: () => !!env.LOCAL_STT_BASE_URL,
+  async transcribe(audio, options) {
+    const model = options.model || this.defaultModel;
+
+    if (env.LOCAL_STT_API === 'openai') {
+      const data = await postForm(
+        this.id,
+        `${env.LOCAL_STT_BASE_URL}/audio/transcriptions`,
+        openaiTranscriptionForm(audio, model, options),
+        {}
+      ) as { text?: string };
+      // Without a model name the server transcribes with the model it was started with
+      return { text: data.text ?? '', model: model || 'server default' };
+    }
+
+    // whisper.cpp loads its model at startup; the name is only recorded
+    const form = new FormData();
+    form.append('file', new Blob([audio], { type: 'audio/wav' }), 'recording.wav');
+    form.append('response_format', 'json');
+    form.append('temperature', '0');
+    if (options.language) form.append('language', options.language);
+    if (options.prompt) form.append('prompt', options.prompt);
+    const data = await postForm(this.id, `${env.LOCAL_STT_BASE_URL}/inference`, form, {}) as { text?: string };
+    return { text: (data.text ?? '').trim(), model };
+  }
+};
+
+const PROVIDERS: Record<SttProviderId, SttProvider> = {
+  'openai-realtime': openaiRealtimeProvider,
+  'openai-file': openaiFileProvider,
+  'local-whisper': localWhisperProvider
+};
+
+export function isSttProviderId(value: unknown): value is SttProviderId {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(PROVIDERS, value);
+}
+
+export function getSttProvider(id: SttProviderId): SttProvider {
+  return PROVIDERS[id];
+}
+
+export function listSttProviders() {
+  return Object.values(PROVIDERS).map(provider => ({
+    id: provider.id,
+    label: provider.label,
+    mode: provider.mode,
+    configured: provider.isConfigured(),
+    defaultModel: provider.defaultModel
+  }));
+}
+
+/**
+ * Transcribe a finished recording with a file provider
+ */
+export async function transcribeFile(
+  provider: SttProvider,
+  audio: Buffer,
+  options: FileTranscriptionOptions
+): Promise<FileTranscription> {
+  if (!provider.transcribe) {
+    throw new ProviderRequestError(400, `${provider.label} only supports streaming transcription`, provider.id);
+  }
+  if (!provider.isConfigured()) {
+    throw new ProviderRequestError(503, `${provider.label} is not configured (set ${provider.requiredEnv})`, provider.id);
+  }
+  return provider.transcribe(audio, options);
+}
@@ -0,0 +1,13 @@
+/**
+ * An upstream API rejected the request or could not be reached; carries the
+ * upstream status and body. Pluggable providers (evaluator or transcription)
+ * name themselves; status 503 when the provider is not configured, 502 when
+ * the network request failed. Realtime session requests always go to OpenAI
+ * and leave the provider unset.
+ */
+export class ProviderRequestError extends Error {
+  constructor(public status: number, public details: string, public provider?: string) {
+    super(`${provider ?? 'OpenAI'} request failed with status ${status}`);
+    this.name = 'ProviderRequestError';
+  }
+}
@@ -6,6 +6,8 @@ import Scoring from './pages/Scoring';
 import Prompts from './pages/Prompts';
 import Telemetry from './pages/Telemetry';
 import Logs from './pages/Logs';
+import Batch from './pages/Batch';
+import Golden from './pages/Golden';
 
 function App() {
   return (
@@ -13,6 +15,8 @@ function App() {
       <Routes>
         <Route path="/" element={<Navigate to="/test" replace />} />
         <Route path="/test" element={<STTTest />} />
+        <Route path="/batch" element={<Batch />} />
+        <Route path="/golden" element={<Golden />} />
         <Route path="/parameters" element={<Parameters />} />
         <Route path="/scoring" element={<Scoring />} />
         <Route path="/prompts" element={<Prompts />} />
@@ -0,0 +1,48 @@
+/**
+ * Decode recorded audio files for batch replay
+ *
+ * Returns mono Float32 samples at 24kHz, the rate the Realtime API expects:
+ * - .pcm / .raw: headerless PCM16, little-endian, mono, 24kHz (what the console streams)
+ * - anything else (WAV, MP3, ...): decoded by the browser and resampled by an
+ *   OfflineAudioContext running at 24kHz, channels averaged to mono
+ */
+
+import { TARGET_SAMPLE_RATE } from '../realtime/pcm16';
+
+const RAW_PCM_EXTENSIONS = ['.pcm', '.raw'];
+
+export function isRawPcmFile(fileName: string): boolean {
+  const lower = fileName.toLowerCase();
+  return RAW_PCM_EXTENSIONS.some(ext => lower.endsWith(ext));
+}
+
+function decodeRawPcm16(buffer: ArrayBuffer): Float32Array {
+  const view = new DataView(buffer);
+  const samples = new Float32Array(Math.floor(buffer.byteLength / 2));
+  for (let i = 0; i < samples.length; i++) {
+    const sample = view.getInt16(i * 2, true);
+    samples[i] = sample < 0 ? sample / 0x8000 : sample / 0x7FFF;
+  }
+  return samples;
+}
+
+export async function decodeAudioFile(file: File): Promise<Float32Array> {
+  const buffer = await file.arrayBuffer();
+
+  if (isRawPcmFile(file.name)) {
+    return decodeRawPcm16(buffer);
+  }
+
+  // decodeAudioData resamples to the context's rate
+  const context = new OfflineAudioContext(1, 1, TARGET_SAMPLE_RATE);
+  const audioBuffer = await context.decodeAudioData(buffer);
+
+  const samples = new Float32Array(audioBuffer.length);
+  for (let channel = 0; channel < audioBuffer.numberOfChannels; channel++) {
+    const data = audioBuffer.getChannelData(channel);
+    for (let i = 0; i < data.length; i++) {
+      samples[i] += data[i] / audioBuffer.numberOfChannels;
+    }
+  }
+  return samples;
+}
@@ -0,0 +1,68 @@
+/**
+ * Silence segmentation from per-buffer RMS levels
+ *
+ * Fed with the RMS of each captured audio buffer, in order. Tracks where
+ * speech starts and records every silent gap between speech frames so pause
+ * metrics come from the audio itself rather than from a WPM estimate.
+ * Pause classification (short vs long) is left to the caller, so the same
+ * segmentation can be re-scored under different profile thresholds.
+ */
+
+import type { PauseInterval } from '../types';
+
+// Buffers quieter than this are treated as silence (~ -40 dBFS)
+export const DEFAULT_SILENCE_RMS_THRESHOLD = 0.01;
+
+export interface SpeechSegmentation {
+  durationMs: number;           // Total audio analysed
+  speechOnsetMs: number | null; // Start of audio -> first speech frame (null = no speech detected)
+  speechEndMs: number | null;   // End of the last speech frame
+  pauses: PauseInterval[];      // Silent gaps between speech frames
+}
+
+export interface SilenceSegmenter {
+  push: (rms: number, frameDurationMs: number) => void;
+  finish: () => SpeechSegmentation;
+}
+
+export function createSilenceSegmenter(
+  silenceRmsThreshold: number = DEFAULT_SILENCE_RMS_THRESHOLD
+): SilenceSegmenter {
+  let elapsedMs = 0;
+  let speechOnsetMs: number | null = null;
+  let speechEndMs: number | null = null;
+  let silenceStartMs: number | null = null;
+  const pauses: PauseInterval[] = [];
+
+  const push = (rms: number, frameDurationMs: number) => {
+    const frameStartMs = elapsedMs;
+    elapsedMs += frameDurationMs;
+
+    if (rms >= silenceRmsThreshold) {
+      if (speechOnsetMs === null) {
+        speechOnsetMs = frameStartMs;
+      } else if (silenceStartMs !== null) {
+        // Silence that ends in speech is a pause
+        pauses.push({
+          startMs: Math.round(silenceStartMs),
+          endMs: Math.round(frameStartMs),
+          durationMs: Math.round(frameStartMs - silenceStartMs)
+        });
+      }
+      silenceStartMs = null;
+      speechEndMs = elapsedMs;
+    } else if (speechOnsetMs !== null && silenceStartMs === null) {
+      silenceStartMs = frameStartMs;
+    }
+  };
+
+  // Trailing silence after the last word is not a pause, so it is dropped here
+  const finish = (): SpeechSegmentation => ({
+    durationMs: Math.round(elapsedMs),
+    speechOnsetMs: speechOnsetMs === null ? null : Math.round(speechOnsetMs),
+    speechEndMs: speechEndMs === null ? null : Math.round(speechEndMs),
+    pauses: [...pauses]
+  });
+
+  return { push, finish };
+}
@@ -0,0 +1,46 @@
+/**
+ * WAV encoding for recorded PCM16 audio
+ */
+
+import { TARGET_SAMPLE_RATE } from '../realtime/pcm16';
+
+/**
+ * Concatenate captured PCM16 chunks into one buffer
+ */
+export function concatPcmChunks(chunks: Uint8Array[]): Uint8Array {
+  const total = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+  const pcm = new Uint8Array(total);
+  let offset = 0;
+  for (const chunk of chunks) {
+    pcm.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return pcm;
+}
+
+/**
+ * Wrap little-endian mono PCM16 in a 44-byte RIFF/WAVE header
+ */
+export function encodeWav(pcm: Uint8Array, sampleRate: number = TARGET_SAMPLE_RATE): Blob {
+  const header = new ArrayBuffer(44);
+  const view = new DataView(header);
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) view.setUint8(offset + i, value.charCodeAt(i));
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + pcm.length, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);             // fmt chunk size
+  view.setUint16(20, 1, true);              // PCM
+  view.setUint16(22, 1, true);              // Mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true); // Byte rate
+  view.setUint16(32, 2, true);              // Block align
+  view.setUint16(34, 16, true);             // Bits per sample
+  writeString(36, 'data');
+  view.setUint32(40, pcm.length, true);
+
+  return new Blob([header, pcm], { type: 'audio/wav' });
+}
@@ -7,6 +7,8 @@ interface LayoutProps {
 
 const navItems = [
   { path: '/test', label: 'STT Test' },
+  { path: '/batch', label: 'Batch' },
+  { path: '/golden', label: 'Golden Set' },
   { path: '/parameters', label: 'Parameters' },
   { path: '/scoring', label: 'Scoring' },
   { path: '/prompts', label: 'Prompts' },
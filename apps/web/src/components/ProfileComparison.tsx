@@ -0,0 +1,172 @@
+import { useState, useEffect } from 'react';
+import type { Profile, ScoreResult } from '../types';
+import { scoreUnderProfiles } from '../scoring/compareProfiles';
+import type { RecordedUtterance, ProfileComparisonResult } from '../scoring/compareProfiles';
+
+interface ProfileComparisonProps {
+  utterance: RecordedUtterance | null;
+  profiles: Profile[];
+  activeProfileId: string;
+}
+
+const METRICS: Array<{ key: keyof Pick<ScoreResult, 'accuracyScore' | 'fluencyScore' | 'structureScore' | 'overallScore'>; label: string }> = [
+  { key: 'accuracyScore', label: 'Accuracy' },
+  { key: 'fluencyScore', label: 'Fluency' },
+  { key: 'structureScore', label: 'Structure' },
+  { key: 'overallScore', label: 'Overall' }
+];
+
+/**
+ * Score the last utterance under several profiles side by side
+ * The first selected profile is the baseline the others are compared to.
+ */
+function ProfileComparison({ utterance, profiles, activeProfileId }: ProfileComparisonProps) {
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [results, setResults] = useState<ProfileComparisonResult[]>([]);
+  const [isComparing, setIsComparing] = useState(false);
+
+  // Baseline defaults to the active profile
+  useEffect(() => {
+    if (activeProfileId) {
+      setSelectedIds(prev => prev.length > 0 ? prev : [activeProfileId]);
+    }
+  }, [activeProfileId]);
+
+  // Results belong to one utterance
+  useEffect(() => {
+    setResults([]);
+  }, [utterance]);
+
+  const toggleProfile = (profileId: string) => {
+    setSelectedIds(prev => prev.includes(profileId)
+      ? prev.filter(id => id !== profileId)
+      : [...prev, profileId]
+    );
+  };
+
+  const handleCompare = async () => {
+    if (!utterance) return;
+    const selected = selectedIds
+      .map(id => profiles.find(p => p.id === id))
+      .filter((p): p is Profile => p !== undefined);
+
+    setIsComparing(true);
+    try {
+      setResults(await scoreUnderProfiles(utterance, selected));
+    } finally {
+      setIsComparing(false);
+    }
+  };
+
+  const baseline = results[0]?.result;
+  const profileName = (id: string) => profiles.find(p => p.id === id)?.name ?? id;
+
+  return (
+    <div className="paper-card">
+      <div className="flex justify-between items-center" style={{ marginBottom: 'var(--space-md)' }}>
+        <h4>Profile Comparison</h4>
+        <button
+          className="btn btn-secondary"
+          onClick={handleCompare}
+          disabled={!utterance || selectedIds.length < 2 || isComparing}
+        >
+          {isComparing ? 'Scoring...' : 'Compare'}
+        </button>
+      </div>
+
+      <div className="flex gap-md" style={{ flexWrap: 'wrap', marginBottom: 'var(--space-sm)' }}>
+        {profiles.map(profile => (
+          <label key={profile.id} className="flex items-center gap-sm text-small">
+            <input
+              type="checkbox"
+              checked={selectedIds.includes(profile.id)}
+              onChange={() => toggleProfile(profile.id)}
+              disabled={isComparing}
+            />
+            {profile.name}
+            {selectedIds[0] === profile.id && <span className="mono text-small text-muted">(baseline)</span>}
+          </label>
+        ))}
+      </div>
+
+      <p className="text-small text-muted" style={{ marginBottom: 'var(--space-md)' }}>
+        {utterance
+          ? 'Re-scores the last recording under each profile: same transcript, fluency re-measured with each profile\'s thresholds. VAD settings are not re-applied.'
+          : 'Record an answer first, then pick two or more profiles to compare.'}
+      </p>
+
+      {results.length > 0 && (
+        <div style={{ overflowX: 'auto' }}>
+          <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+            <thead>
+              <tr style={{ background: 'var(--surface-paper-2)' }}>
+                <th className="mono text-small" style={{ padding: 'var(--space-sm)', textAlign: 'left', color: 'var(--accent-yellow)' }}></th>
+                {results.map(r => (
+                  <th
+                    key={r.profileId}
+                    className="mono text-small"
+                    style={{ padding: 'var(--space-sm)', textAlign: 'center', color: 'var(--accent-yellow)' }}
+                  >
+                    {profileName(r.profileId)}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {METRICS.map(({ key, label }) => (
+                <tr key={key} style={{ borderTop: '1px solid var(--stroke)' }}>
+                  <td className="mono text-small" style={{ padding: 'var(--space-sm)' }}>{label}</td>
+                  {results.map((r, i) => (
+                    <td key={r.profileId} className="mono text-small" style={{ padding: 'var(--space-sm)', textAlign: 'center' }}>
+                      {r.result ? (
+                        <>
+                          {r.result[key]}
+                          {i > 0 && baseline && <Delta value={r.result[key] - baseline[key]} />}
+                        </>
+                      ) : (
+                        <span style={{ color: 'var(--accent-danger)' }} title={r.error}>error</span>
+                      )}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+              <tr style={{ borderTop: '1px solid var(--stroke)' }}>
+                <td className="mono text-small" style={{ padding: 'var(--space-sm)' }}>Result</td>
+                {results.map((r, i) => (
+                  <td key={r.profileId} className="mono text-small" style={{ padding: 'var(--space-sm)', textAlign: 'center' }}>
+                    {r.result && (
+                      <>
+                        <span style={{
+                          fontWeight: 'bold',
+                          color: r.result.passed ? 'var(--accent-success)' : 'var(--accent-danger)'
+                        }}>
+                          {r.result.passed ? 'PASS' : 'FAIL'}
+                        </span>
+                        {i > 0 && baseline && baseline.passed !== r.result.passed && (
+                          <span style={{ color: 'var(--accent-yellow)' }}> (flips)</span>
+                        )}
+                      </>
+                    )}
+                  </td>
+                ))}
+              </tr>
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function Delta({ value }: { value: number }) {
+  if (value === 0) {
+    return <span style={{ color: 'rgba(255, 255, 255, 0.5)' }}> (±0)</span>;
+  }
+  return (
+    <span style={{ color: value > 0 ? 'var(--accent-success)' : 'var(--accent-danger)' }}>
+      {' '}({value > 0 ? '+' : ''}{value})
+    </span>
+  );
+}
+
+export default ProfileComparison;
@@ -0,0 +1,67 @@
+import { useMemo } from 'react';
+import { diffLines } from '../utils/promptVersions';
+import type { DiffRow } from '../utils/promptVersions';
+
+interface PromptDiffProps {
+  title: string;
+  leftLabel: string;
+  rightLabel: string;
+  before: string;
+  after: string;
+}
+
+const ROW_BACKGROUNDS: Record<DiffRow['type'], { left: string; right: string }> = {
+  same: { left: 'transparent', right: 'transparent' },
+  removed: { left: 'rgba(220, 80, 60, 0.25)', right: 'transparent' },
+  added: { left: 'transparent', right: 'rgba(90, 170, 90, 0.25)' },
+  changed: { left: 'rgba(220, 80, 60, 0.25)', right: 'rgba(90, 170, 90, 0.25)' }
+};
+
+const cellStyle = {
+  padding: '2px var(--space-sm)',
+  whiteSpace: 'pre-wrap',
+  verticalAlign: 'top',
+  width: '50%'
+} as const;
+
+/**
+ * Side-by-side line diff of one prompt template
+ */
+function PromptDiff({ title, leftLabel, rightLabel, before, after }: PromptDiffProps) {
+  const rows = useMemo(() => diffLines(before, after), [before, after]);
+  const unchanged = rows.every(row => row.type === 'same');
+
+  return (
+    <div style={{ marginBottom: 'var(--space-md)' }}>
+      <p className="label">{title}{unchanged && ' (no changes)'}</p>
+      <div
+        style={{
+          background: 'var(--surface-ink)',
+          color: 'var(--text-on-dark)',
+          borderRadius: 'var(--radius-md)',
+          overflow: 'auto',
+          maxHeight: '400px'
+        }}
+      >
+        <table className="mono text-small" style={{ width: '100%', borderCollapse: 'collapse', tableLayout: 'fixed' }}>
+          <thead>
+            <tr>
+              <th style={{ ...cellStyle, textAlign: 'left', color: 'var(--accent-yellow)' }}>{leftLabel}</th>
+              <th style={{ ...cellStyle, textAlign: 'left', color: 'var(--accent-yellow)' }}>{rightLabel}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row, i) => (
+              <tr key={i}>
+                <td style={{ ...cellStyle, background: ROW_BACKGROUNDS[row.type].left }}>{row.left ?? ''}</td>
+                <td style={{ ...cellStyle, background: ROW_BACKGROUNDS[row.type].right }}>{row.right ?? ''}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+export default PromptDiff;
@@ -180,7 +180,8 @@ function QuestionBankLoader({ onLoad, onLoadJSON, error }: QuestionBankLoaderPro
       "scenarioPrompt": "Your scenario...",
       "expectedAnswer": {
         "text": "Expected response",
-        "variants": ["Alternative 1"]
+        "variants": ["Alternative 1"],
+        "callsigns": { "receiver": ["ATC"], "sender": ["Bowser One"] }
       },
       "tags": ["category"],
       "hints": ["Hint 1"]
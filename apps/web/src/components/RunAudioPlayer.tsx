@@ -0,0 +1,62 @@
+import { useState, useEffect } from 'react';
+import { getRecording } from '../storage/audioStore';
+import { encodeWav } from '../audio/wav';
+
+interface RunAudioPlayerProps {
+  audioId: string;
+  fileName: string;
+}
+
+/**
+ * Playback and WAV download for a run's stored audio
+ */
+function RunAudioPlayer({ audioId, fileName }: RunAudioPlayerProps) {
+  const [url, setUrl] = useState<string | null>(null);
+  const [status, setStatus] = useState<'loading' | 'ready' | 'missing'>('loading');
+
+  useEffect(() => {
+    let objectUrl: string | null = null;
+    let cancelled = false;
+    setStatus('loading');
+
+    getRecording(audioId)
+      .then(recording => {
+        if (cancelled) return;
+        if (!recording) {
+          setStatus('missing');
+          return;
+        }
+        objectUrl = URL.createObjectURL(encodeWav(recording.pcm, recording.sampleRate));
+        setUrl(objectUrl);
+        setStatus('ready');
+      })
+      .catch(err => {
+        console.warn('[Logs] Failed to load run audio:', err);
+        if (!cancelled) setStatus('missing');
+      });
+
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+      setUrl(null);
+    };
+  }, [audioId]);
+
+  if (status === 'loading') {
+    return <p className="mono text-small text-muted">Loading audio...</p>;
+  }
+  if (status === 'missing' || !url) {
+    return <p className="mono text-small text-muted">Audio not available in this browser.</p>;
+  }
+
+  return (
+    <div className="flex items-center gap-sm">
+      <audio controls src={url} style={{ flex: 1 }} />
+      <a className="btn btn-secondary" href={url} download={fileName}>
+        Download WAV
+      </a>
+    </div>
+  );
+}
+
+export default RunAudioPlayer;
@@ -1,4 +1,4 @@
-import type { ScoreResult } from '../types';
+import type { ScoreResult, ScoreStats, AccuracyAlignment, SectionFailure, StructureAnalysis } from '../types';
 
 // Warning Icon Component
 const WarningIcon = () => (
@@ -13,6 +13,17 @@ const WarningIcon = () => (
   </svg>
 );
 
+// -1 = expected answer, 0+ = index into expectedAnswer.variants
+const getMatchedAnswerLabel = (variantIndex: number) =>
+  variantIndex < 0 ? 'Expected answer' : `Variant ${variantIndex + 1}`;
+
+const describeFailure = (failure: SectionFailure) => {
+  const label = failure.section.charAt(0).toUpperCase() + failure.section.slice(1);
+  return failure.section === 'overall'
+    ? `Overall ${failure.score} is below the pass mark of ${failure.minimum}`
+    : `${label} ${failure.score} is below the section minimum of ${failure.minimum}`;
+};
+
 interface ScoreDisplayProps {
   score: ScoreResult | null;
   isLoading?: boolean;
@@ -50,7 +61,14 @@ function ScoreDisplay({ score, isLoading }: ScoreDisplayProps) {
   return (
     <div className="paper-card">
       <div className="flex justify-between items-center" style={{ marginBottom: 'var(--space-md)' }}>
-        <h4>Score</h4>
+        <h4>
+          Score
+          {score.scoringSource === 'local' && (
+            <span className="mono text-small text-muted" style={{ marginLeft: 'var(--space-sm)' }}>
+              (offline - local scoring only)
+            </span>
+          )}
+        </h4>
         <span
           className="mono"
           style={{
@@ -67,6 +85,25 @@ function ScoreDisplay({ score, isLoading }: ScoreDisplayProps) {
         </span>
       </div>
 
+      {/* Failed benchmarks */}
+      {!score.passed && score.failures && score.failures.length > 0 && (
+        <div
+          className="paper-card-2"
+          style={{ marginBottom: 'var(--space-md)', borderLeft: '3px solid var(--accent-danger)' }}
+        >
+          <p className="mono text-small" style={{ fontWeight: 'bold', marginBottom: '4px', color: 'white' }}>
+            Failed benchmarks:
+          </p>
+          <ul style={{ paddingLeft: 'var(--space-md)', margin: 0 }}>
+            {score.failures.map((failure) => (
+              <li key={failure.section} className="text-small" style={{ color: 'rgba(255, 255, 255, 0.8)' }}>
+                {describeFailure(failure)}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {/* Overall Score */}
       <div
         className="text-center"
@@ -88,6 +125,20 @@ function ScoreDisplay({ score, isLoading }: ScoreDisplayProps) {
           {score.overallScore}
         </h1>
         <p className="mono text-small text-muted">Overall Score</p>
+        {score.sampling && (
+          <div style={{ maxWidth: '240px', margin: 'var(--space-xs) auto 0' }}>
+            <p className="mono text-small text-muted">
+              ± {score.sampling.stats.overall.stdDev} ({score.sampling.stats.overall.min}–{score.sampling.stats.overall.max}, {score.sampling.valid}
+              {score.sampling.valid < score.sampling.requested && ` of ${score.sampling.requested}`} samples)
+            </p>
+            <ConfidenceBand stats={score.sampling.stats.overall} />
+          </div>
+        )}
+        {score.matchedVariant !== undefined && (
+          <p className="mono text-small text-muted" style={{ marginTop: 'var(--space-xs)' }}>
+            Best match: {getMatchedAnswerLabel(score.matchedVariant)}
+          </p>
+        )}
       </div>
 
       {/* Component Scores */}
@@ -96,19 +147,38 @@ function ScoreDisplay({ score, isLoading }: ScoreDisplayProps) {
           label="Accuracy"
           value={score.accuracyScore}
           color={getScoreColor(score.accuracyScore)}
+          stats={score.sampling?.stats.accuracy}
         />
         <ScoreCard
           label="Fluency"
           value={score.fluencyScore}
           color={getScoreColor(score.fluencyScore)}
+          stats={score.sampling?.stats.fluency}
         />
         <ScoreCard
           label="Structure"
           value={score.structureScore}
           color={getScoreColor(score.structureScore)}
+          stats={score.sampling?.stats.structure}
         />
       </div>
 
+      {/* Deterministic alignment next to the LLM accuracy */}
+      {score.localAccuracy && (
+        <LocalAccuracyPanel
+          alignment={score.localAccuracy}
+          llmAccuracy={score.scoringSource === 'local' ? null : score.accuracyScore}
+        />
+      )}
+
+      {/* Rule-based structure findings next to the LLM structure score */}
+      {score.localStructure && (
+        <LocalStructurePanel
+          analysis={score.localStructure}
+          llmStructure={score.scoringSource === 'local' ? null : score.structureScore}
+        />
+      )}
+
       {/* Reasons */}
       {score.reasons && Object.keys(score.reasons).length > 0 && (
         <div>
@@ -140,19 +210,157 @@ function ScoreDisplay({ score, isLoading }: ScoreDisplayProps) {
   );
 }
 
+function LocalAccuracyPanel({
+  alignment,
+  llmAccuracy
+}: {
+  alignment: AccuracyAlignment;
+  llmAccuracy: number | null;
+}) {
+  const drift = llmAccuracy === null ? null : llmAccuracy - alignment.score;
+
+  return (
+    <div className="paper-card-2" style={{ marginBottom: 'var(--space-md)' }}>
+      <div className="flex justify-between items-center" style={{ marginBottom: 'var(--space-xs)' }}>
+        <p className="mono text-small" style={{ fontWeight: 'bold', color: 'white' }}>Local Alignment</p>
+        <p className="mono text-small" style={{ color: 'var(--accent-yellow)' }}>
+          {alignment.score}
+          {drift !== null && (
+            <span style={{ color: Math.abs(drift) > 15 ? 'var(--accent-danger)' : 'rgba(255, 255, 255, 0.6)' }}>
+              {' '}(LLM {drift >= 0 ? '+' : ''}{drift})
+            </span>
+          )}
+        </p>
+      </div>
+      <p className="mono text-small" style={{ color: 'rgba(255, 255, 255, 0.8)' }}>
+        WER {(alignment.wer * 100).toFixed(1)}% · {alignment.substitutions} sub · {alignment.deletions} del · {alignment.insertions} ins
+      </p>
+      <p className="text-small" style={{ color: 'rgba(255, 255, 255, 0.6)' }}>
+        Matched {getMatchedAnswerLabel(alignment.variantIndex)}: "{alignment.reference}"
+      </p>
+    </div>
+  );
+}
+
+function LocalStructurePanel({
+  analysis,
+  llmStructure
+}: {
+  analysis: StructureAnalysis;
+  llmStructure: number | null;
+}) {
+  const drift = llmStructure === null ? null : llmStructure - analysis.score;
+
+  return (
+    <div className="paper-card-2" style={{ marginBottom: 'var(--space-md)' }}>
+      <div className="flex justify-between items-center" style={{ marginBottom: 'var(--space-xs)' }}>
+        <p className="mono text-small" style={{ fontWeight: 'bold', color: 'white' }}>Structure Parser</p>
+        <p className="mono text-small" style={{ color: 'var(--accent-yellow)' }}>
+          {analysis.score}
+          {drift !== null && (
+            <span style={{ color: Math.abs(drift) > 15 ? 'var(--accent-danger)' : 'rgba(255, 255, 255, 0.6)' }}>
+              {' '}(LLM {drift >= 0 ? '+' : ''}{drift})
+            </span>
+          )}
+        </p>
+      </div>
+      <div className="flex gap-sm" style={{ flexWrap: 'wrap' }}>
+        {analysis.findings.map((finding) => (
+          <span
+            key={finding.component}
+            className="mono text-small"
+            title={finding.text ? `"${finding.text}"` : undefined}
+            style={{
+              color: !finding.checked
+                ? 'rgba(255, 255, 255, 0.4)'
+                : finding.found
+                  ? 'var(--accent-success)'
+                  : finding.required ? 'var(--accent-danger)' : 'rgba(255, 255, 255, 0.6)'
+            }}
+          >
+            {finding.found ? '✓' : finding.checked ? '✗' : '?'} {finding.component}
+            {!finding.required && ' (opt)'}
+          </span>
+        ))}
+      </div>
+      {analysis.orderIssues.length > 0 && (
+        <p className="text-small" style={{ color: 'var(--accent-danger)', marginTop: 'var(--space-xs)' }}>
+          Out of order: {analysis.orderIssues.join(', ')}
+        </p>
+      )}
+    </div>
+  );
+}
+
 function ScoreCard({
   label,
   value,
-  color
+  color,
+  stats
 }: {
   label: string;
   value: number;
   color: string;
+  stats?: ScoreStats;
 }) {
   return (
     <div className="paper-card-2 text-center">
-      <h3 style={{ color, marginBottom: 'var(--space-xs)' }}>{value}</h3>
+      <h3 style={{ color, marginBottom: 'var(--space-xs)' }}>
+        {value}
+        {stats && (
+          <span className="mono text-small" style={{ color: 'rgba(255, 255, 255, 0.6)', marginLeft: '4px' }}>
+            ±{stats.stdDev}
+          </span>
+        )}
+      </h3>
       <p className="mono text-small" style={{ color: 'white' }}>{label}</p>
+      {stats && (
+        <>
+          <p className="mono text-small" style={{ color: 'rgba(255, 255, 255, 0.6)' }}>
+            {stats.min}–{stats.max}
+          </p>
+          <ConfidenceBand stats={stats} />
+        </>
+      )}
+    </div>
+  );
+}
+
+// Sampled min–max range on a 0-100 track, with the mean marked
+function ConfidenceBand({ stats }: { stats: ScoreStats }) {
+  return (
+    <div
+      title={`mean ${stats.mean}, σ ${stats.stdDev}, range ${stats.min}–${stats.max}`}
+      style={{
+        position: 'relative',
+        height: '6px',
+        marginTop: 'var(--space-xs)',
+        background: 'rgba(255, 255, 255, 0.1)',
+        borderRadius: 'var(--radius-sm)'
+      }}
+    >
+      <div
+        style={{
+          position: 'absolute',
+          left: `${stats.min}%`,
+          width: `${Math.max(stats.max - stats.min, 1)}%`,
+          top: 0,
+          bottom: 0,
+          background: 'var(--accent-yellow)',
+          opacity: 0.5,
+          borderRadius: 'var(--radius-sm)'
+        }}
+      />
+      <div
+        style={{
+          position: 'absolute',
+          left: `${stats.mean}%`,
+          top: '-2px',
+          bottom: '-2px',
+          width: '2px',
+          background: 'white'
+        }}
+      />
     </div>
   );
 }
@@ -17,6 +17,8 @@ function TelemetryStrip({ telemetry, isRecording }: TelemetryStripProps) {
     return `$${cost.toFixed(4)}`;
   };
 
+  const unpricedModels = telemetry.cost?.fallbackPricing;
+
   return (
     <div
       className="ink-bar"
@@ -52,7 +54,8 @@ function TelemetryStrip({ telemetry, isRecording }: TelemetryStripProps) {
       />
       <TelemetryItem
         label="Cost"
-        value={formatCost(telemetry.estimatedCost)}
+        value={`${formatCost(telemetry.estimatedCost)}${unpricedModels ? ' *' : ''}`}
+        title={unpricedModels && `Estimated: no price entry for ${unpricedModels.join(', ')}`}
       />
     </div>
   );
@@ -62,15 +65,17 @@ function TelemetryItem({
   label,
   value,
   highlight,
-  accent
+  accent,
+  title
 }: {
   label: string;
   value: string;
   highlight?: boolean;
   accent?: boolean;
+  title?: string;
 }) {
   return (
-    <div style={{ display: 'flex', alignItems: 'center', gap: 'var(--space-xs)' }}>
+    <div style={{ display: 'flex', alignItems: 'center', gap: 'var(--space-xs)' }} title={title}>
       <span className="mono text-small text-muted">{label}:</span>
       <span
         className="mono text-small"
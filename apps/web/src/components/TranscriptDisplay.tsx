@@ -1,18 +1,110 @@
+import { useMemo } from 'react';
+import type { CSSProperties } from 'react';
+import type { AccuracyAlignment, AlignmentOp, Profile, Question } from '../types';
+import { alignTranscript } from '../scoring/scoreTranscript';
+import { isNumberToken } from '../scoring/accuracy';
+
 interface TranscriptDisplayProps {
   interimTranscript: string;
   finalTranscript: string;
   isRecording: boolean;
-  expectedAnswer?: string;
+  question?: Question;
+  profile?: Profile; // Normalization for the word diff
+}
+
+// A wrong runway, heading or frequency changes the meaning of the call
+const isNumericError = (op: AlignmentOp) =>
+  op.type !== 'match' && [op.expected, op.actual].some(word => word !== undefined && isNumberToken(word));
+
+const DIFF_STYLES: Record<AlignmentOp['type'] | 'numeric', CSSProperties> = {
+  match: { color: 'white' },
+  substitution: { color: 'var(--brass-light)', fontWeight: 'bold' },
+  deletion: { color: 'rgba(255, 255, 255, 0.6)', border: '1px dashed rgba(255, 255, 255, 0.6)', padding: '0 4px' },
+  // Strike-through is reserved for the replaced word inside a substitution
+  insertion: { color: 'var(--accent-glow)', textDecoration: 'underline dotted', textUnderlineOffset: '4px' },
+  numeric: { color: 'white', background: 'var(--accent-danger)', fontWeight: 'bold', padding: '0 4px' }
+};
+
+const describeOp = (op: AlignmentOp) => {
+  switch (op.type) {
+    case 'substitution': return `Said "${op.actual}", expected "${op.expected}"`;
+    case 'deletion': return `Missing "${op.expected}"`;
+    case 'insertion': return `Extra "${op.actual}"`;
+    default: return undefined;
+  }
+};
+
+function DiffToken({ op }: { op: AlignmentOp }) {
+  const style = {
+    ...DIFF_STYLES[op.type],
+    ...(isNumericError(op) ? DIFF_STYLES.numeric : {}),
+    borderRadius: 'var(--radius-xs)'
+  };
+
+  return (
+    <span title={describeOp(op)} style={style}>
+      {op.type === 'substitution' ? (
+        <>
+          <span style={{ textDecoration: 'line-through', opacity: 0.6, fontWeight: 'normal' }}>{op.expected}</span>
+          {' '}{op.actual}
+        </>
+      ) : op.type === 'insertion' ? (
+        `+${op.actual}`
+      ) : (
+        op.type === 'deletion' ? op.expected : op.actual
+      )}
+    </span>
+  );
+}
+
+/**
+ * Token-aligned diff of the normalized transcript against the best-matching
+ * reference, the same alignment the local accuracy score is computed from
+ */
+function WordDiff({ alignment }: { alignment: AccuracyAlignment }) {
+  const numericErrors = alignment.operations.filter(isNumericError).length;
+  const legend: Array<{ label: string; style: CSSProperties }> = [
+    { label: `${alignment.substitutions} substituted`, style: DIFF_STYLES.substitution },
+    { label: `${alignment.deletions} missing`, style: DIFF_STYLES.deletion },
+    { label: `${alignment.insertions} extra (+)`, style: DIFF_STYLES.insertion },
+    { label: `${numericErrors} numeric`, style: DIFF_STYLES.numeric }
+  ];
+
+  return (
+    <div className="paper-card-2">
+      <p className="mono text-small" style={{ lineHeight: 2, display: 'flex', flexWrap: 'wrap', gap: '0 var(--space-sm)' }}>
+        {alignment.operations.map((op, i) => (
+          <DiffToken key={i} op={op} />
+        ))}
+      </p>
+      <div className="flex gap-md" style={{ flexWrap: 'wrap', marginTop: 'var(--space-sm)' }}>
+        {legend.map(item => (
+          <span key={item.label} className="mono text-small" style={{ ...item.style, borderRadius: 'var(--radius-xs)' }}>
+            {item.label}
+          </span>
+        ))}
+        <span className="text-small" style={{ color: 'rgba(255, 255, 255, 0.6)' }}>
+          vs. {alignment.variantIndex < 0 ? 'expected answer' : `variant ${alignment.variantIndex + 1}`}
+        </span>
+      </div>
+    </div>
+  );
 }
 
 function TranscriptDisplay({
   interimTranscript,
   finalTranscript,
   isRecording,
-  expectedAnswer
+  question,
+  profile
 }: TranscriptDisplayProps) {
   const hasContent = interimTranscript || finalTranscript;
 
+  const alignment = useMemo(
+    () => question && profile && finalTranscript ? alignTranscript(finalTranscript, question, profile) : null,
+    [finalTranscript, question, profile]
+  );
+
   return (
     <div className="paper-card">
       <h4 style={{ marginBottom: 'var(--space-md)' }}>
@@ -60,23 +152,12 @@ function TranscriptDisplay({
         )}
       </div>
 
-      {expectedAnswer && finalTranscript && (
+      {question && alignment && (
         <div style={{ marginTop: 'var(--space-md)' }}>
-          <h5 style={{ marginBottom: 'var(--space-sm)' }}>Comparison</h5>
-          <div className="grid grid-cols-2 gap-md">
-            <div>
-              <p className="label">Your Response</p>
-              <div className="paper-card-2">
-                <p className="mono text-small" style={{ color: 'white' }}>{finalTranscript}</p>
-              </div>
-            </div>
-            <div>
-              <p className="label">Expected Answer</p>
-              <div className="paper-card-2">
-                <p className="mono text-small" style={{ color: 'white' }}>{expectedAnswer}</p>
-              </div>
-            </div>
-          </div>
+          <h5 style={{ marginBottom: 'var(--space-sm)' }}>Word Diff</h5>
+          <WordDiff alignment={alignment} />
+          <p className="label" style={{ marginTop: 'var(--space-sm)' }}>Expected Answer</p>
+          <p className="mono text-small">{question.expectedAnswer.text}</p>
         </div>
       )}
 
@@ -4,9 +4,26 @@
 
 export const API_URL = import.meta.env.VITE_API_URL || '';
 
+// OpenAI Realtime WebSocket - set VITE_REALTIME_URL=ws://localhost:3002/v1/realtime for the mock server
+export const REALTIME_URL = import.meta.env.VITE_REALTIME_URL || 'wss://api.openai.com/v1/realtime';
+
+// Relay mode: transcription WebSocket goes through our server (needs REALTIME_RELAY=true on the server)
+export const REALTIME_RELAY = import.meta.env.VITE_REALTIME_RELAY === 'true';
+const API_WS_URL = API_URL
+  ? API_URL.replace(/^http/, 'ws')
+  : `${window.location.protocol === 'https:' ? 'wss:' : 'ws:'}//${window.location.host}`;
+export const REALTIME_RELAY_URL = `${API_WS_URL}/api/realtime/relay`;
+
 // Helper to build API endpoints
 export const api = {
   health: `${API_URL}/api/health`,
   webrtcSession: `${API_URL}/api/webrtc/session`,
   evaluatorScore: `${API_URL}/api/evaluator/score`,
+  evaluatorProviders: `${API_URL}/api/evaluator/providers`,
+  evaluatorTemplates: `${API_URL}/api/evaluator/templates`,
+  evaluatorDryRun: `${API_URL}/api/evaluator/dry-run`,
+  sttProviders: `${API_URL}/api/stt/providers`,
+  sttTranscribe: `${API_URL}/api/stt/transcribe`,
+  relaySession: `${API_URL}/api/realtime/relay/session`,
+  runs: `${API_URL}/api/runs`,
 };
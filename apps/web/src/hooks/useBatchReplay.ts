@@ -0,0 +1,258 @@
+import { useState, useCallback, useRef } from 'react';
+import type { Question, QuestionBankVocabulary, Profile, TestRun, RunTelemetry } from '../types';
+import { decodeAudioFile } from '../audio/decodeAudioFile';
+import { transcribeSamplesForProfile, DEFAULT_STT_PROVIDER } from '../stt/fileTranscription';
+import { collectVocabulary, withVocabularyPrompt } from '../utils/transcriptionPrompt';
+import { measureFluencyMetrics } from '../utils/fluencyMetrics';
+import { calculateRunCost } from '../utils/cost';
+import { DEFAULT_EVALUATOR_MODEL } from '../utils/pricing';
+import { scoreTranscript, createTestRun } from '../scoring/scoreTranscript';
+import { floatToPcm16, TARGET_SAMPLE_RATE } from '../realtime/pcm16';
+import { saveRecording } from '../storage/audioStore';
+
+// Optional file in the selected folder mapping file names to question IDs
+export const MANIFEST_FILE_NAME = 'manifest.json';
+
+const AUDIO_FILE_PATTERN = /\.(wav|pcm|raw|mp3|m4a|ogg|webm)$/i;
+
+export interface BatchResult {
+  status: 'running' | 'done' | 'error';
+  run?: TestRun;
+  error?: string;
+}
+
+export interface BatchItem {
+  id: string;
+  file: File;
+  questionId: string | null;
+  results: Record<string, BatchResult>; // By profile ID
+}
+
+interface UseBatchReplayReturn {
+  items: BatchItem[];
+  isRunning: boolean;
+  progress: { done: number; total: number };
+  addFiles: (files: File[]) => Promise<void>;
+  setQuestionId: (itemId: string, questionId: string | null) => void;
+  runBatch: (profiles: Profile[]) => Promise<void>;
+  cancel: () => void;
+  clear: () => void;
+}
+
+/**
+ * Infer the question ID from a file name: exact match on the base name, or
+ * the longest question ID followed by a separator ("q1-take2.wav" -> "q1")
+ */
+export function inferQuestionId(fileName: string, questionIds: string[]): string | null {
+  const baseName = fileName.replace(/\.[^.]+$/, '').toLowerCase();
+  let best: string | null = null;
+
+  for (const id of questionIds) {
+    const lowerId = id.toLowerCase();
+    const matches = baseName === lowerId ||
+      (baseName.startsWith(lowerId) && /[^a-z0-9]/.test(baseName.charAt(lowerId.length)));
+    if (matches && (!best || id.length > best.length)) {
+      best = id;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Batch Replay Hook
+ *
+ * Scores a set of recorded files against the question bank, once per selected
+ * profile. Each file goes through the same path as a live session (the
+ * profile's transcription provider and VAD, audio-measured fluency, evaluator
+ * scoring) and produces a TestRun, so profiles can be compared on identical audio.
+ */
+export function useBatchReplay(
+  questions: Question[],
+  onRunComplete?: (run: TestRun) => void,
+  vocabulary?: QuestionBankVocabulary // Bank vocabulary for the transcription prompt
+): UseBatchReplayReturn {
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const [progress, setProgress] = useState({ done: 0, total: 0 });
+  const cancelledRef = useRef(false);
+
+  const addFiles = useCallback(async (files: File[]) => {
+    const questionIds = questions.map(q => q.id);
+
+    // manifest.json: { "<file name>": "<question id>" }
+    let manifest: Record<string, string> = {};
+    const manifestFile = files.find(f => f.name === MANIFEST_FILE_NAME);
+    if (manifestFile) {
+      try {
+        manifest = JSON.parse(await manifestFile.text());
+      } catch {
+        console.warn('[Batch] Ignoring invalid manifest.json');
+      }
+    }
+
+    const newItems: BatchItem[] = files
+      .filter(f => AUDIO_FILE_PATTERN.test(f.name))
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map((file, i) => {
+        const manifestId = manifest[file.name];
+        return {
+          id: `batch-${Date.now()}-${i}`,
+          file,
+          questionId: manifestId && questionIds.includes(manifestId)
+            ? manifestId
+            : inferQuestionId(file.name, questionIds),
+          results: {}
+        };
+      });
+
+    setItems(prev => [...prev, ...newItems]);
+  }, [questions]);
+
+  const setQuestionId = useCallback((itemId: string, questionId: string | null) => {
+    setItems(prev => prev.map(item => item.id === itemId ? { ...item, questionId, results: {} } : item));
+  }, []);
+
+  const setResult = (itemId: string, profileId: string, result: BatchResult) => {
+    setItems(prev => prev.map(item => item.id === itemId
+      ? { ...item, results: { ...item.results, [profileId]: result } }
+      : item
+    ));
+  };
+
+  const runBatch = useCallback(async (profiles: Profile[]) => {
+    const runnable = items.filter(item => item.questionId !== null);
+    if (runnable.length === 0 || profiles.length === 0) return;
+
+    cancelledRef.current = false;
+    setIsRunning(true);
+    setProgress({ done: 0, total: runnable.length * profiles.length });
+
+    let done = 0;
+    for (const item of runnable) {
+      if (cancelledRef.current) break;
+
+      const question = questions.find(q => q.id === item.questionId);
+      let samples: Float32Array | null = null;
+      let audioId: string | undefined; // One stored copy shared by every profile's run
+
+      for (const profile of profiles) {
+        if (cancelledRef.current) break;
+        setResult(item.id, profile.id, { status: 'running' });
+
+        try {
+          if (!question) {
+            throw new Error(`Question ${item.questionId} is not in the loaded bank`);
+          }
+
+          // Decode once per file, transcribe once per profile (providers and VAD settings differ)
+          if (!samples) {
+            samples = await decodeAudioFile(item.file);
+            try {
+              await saveRecording(item.id, floatToPcm16(samples), TARGET_SAMPLE_RATE);
+              audioId = item.id;
+            } catch (err) {
+              console.warn('[Batch] Failed to store replay audio:', err);
+            }
+          }
+          const startTime = Date.now();
+          const replay = await transcribeSamplesForProfile(
+            samples,
+            profile,
+            withVocabularyPrompt(profile.transcription, collectVocabulary(vocabulary, question))
+          );
+
+          if (!replay.transcript) {
+            throw new Error(replay.timedOut ? 'Transcription timed out' : 'No speech transcribed');
+          }
+
+          const fluencyMetrics = measureFluencyMetrics(
+            replay.transcript,
+            replay.durationMs,
+            replay.segmentation,
+            profile.fluency
+          );
+          const { result, evaluatorLatencyMs, usage, validation, evaluator } = await scoreTranscript(
+            replay.transcript,
+            question,
+            profile,
+            fluencyMetrics
+          );
+
+          const cost = calculateRunCost({
+            audioDurationMs: replay.durationMs,
+            transcriptionModel: replay.transcriptionModel,
+            transcriptionProvider: profile.transcription?.provider,
+            evaluatorModel: evaluator?.model || profile.evaluator.model || DEFAULT_EVALUATOR_MODEL,
+            evaluatorProvider: evaluator?.provider ?? profile.evaluator.provider,
+            usage
+          });
+
+          const telemetry: RunTelemetry = {
+            connectTimeMs: replay.connectTimeMs,
+            timeToFirstTextMs: replay.timeToFirstTextMs,
+            timeToFinalMs: replay.timeToFinalMs,
+            evaluatorLatencyMs: evaluatorLatencyMs || 0,
+            totalLatencyMs: Date.now() - startTime,
+            audioDurationMs: replay.durationMs,
+            estimatedCost: cost.totalCost,
+            cost,
+            evaluatorValidation: validation,
+            evaluator,
+            transcriptionProvider: profile.transcription?.provider ?? DEFAULT_STT_PROVIDER
+          };
+
+          const run = {
+            ...createTestRun({
+              transcript: replay.transcript,
+              question,
+              profile,
+              fluencyMetrics,
+              score: result,
+              telemetry,
+              status: replay.timedOut ? 'timeout' : 'success',
+              source: 'replay',
+              audioFileName: item.file.name
+            }),
+            ...(audioId ? { audioId } : {})
+          };
+
+          setResult(item.id, profile.id, { status: 'done', run });
+          onRunComplete?.(run);
+        } catch (err) {
+          console.error('[Batch] Replay failed:', item.file.name, err);
+          setResult(item.id, profile.id, {
+            status: 'error',
+            error: err instanceof Error ? err.message : 'Replay failed'
+          });
+        }
+
+        done++;
+        setProgress({ done, total: runnable.length * profiles.length });
+      }
+    }
+
+    setIsRunning(false);
+  }, [items, questions, onRunComplete, vocabulary]);
+
+  const cancel = useCallback(() => {
+    // Stops after the current file/profile finishes
+    cancelledRef.current = true;
+  }, []);
+
+  const clear = useCallback(() => {
+    setItems([]);
+    setProgress({ done: 0, total: 0 });
+  }, []);
+
+  return {
+    items,
+    isRunning,
+    progress,
+    addFiles,
+    setQuestionId,
+    runBatch,
+    cancel,
+    clear
+  };
+}
@@ -0,0 +1,197 @@
+import { useState, useCallback, useRef } from 'react';
+import type { GoldenSet, GoldenRun, GoldenItemResult, Profile, Question } from '../types';
+import { scoreTranscript } from '../scoring/scoreTranscript';
+import {
+  validateGoldenSet,
+  goldenFluencyMetrics,
+  summarizeGoldenRun
+} from '../scoring/goldenSet';
+import { hashPrompts, findPromptVersion } from '../utils/promptVersions';
+import sampleGoldenSet from '../data/sample_golden_set.json';
+
+const STORAGE_KEY = 'stt-console-golden-runs';
+
+// Enough history to compare against a few prompt iterations back
+const MAX_STORED_RUNS = 20;
+
+interface UseGoldenSetReturn {
+  goldenSet: GoldenSet | null;
+  error: string | null;
+  runs: GoldenRun[];
+  results: GoldenItemResult[]; // Results of the run in progress (or the last one)
+  isRunning: boolean;
+  progress: { done: number; total: number };
+  loadFromJSON: (json: string) => boolean;
+  runGoldenSet: (profile: Profile) => Promise<GoldenRun | null>;
+  cancel: () => void;
+  deleteRun: (id: string) => void;
+  clearRuns: () => void;
+}
+
+function readStoredRuns(): GoldenRun[] {
+  const stored = localStorage.getItem(STORAGE_KEY);
+  if (stored) {
+    try {
+      return JSON.parse(stored) as GoldenRun[];
+    } catch {
+      return [];
+    }
+  }
+  return [];
+}
+
+function writeStoredRuns(runs: GoldenRun[]) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(runs.slice(0, MAX_STORED_RUNS)));
+}
+
+/**
+ * Golden Set Hook
+ *
+ * Loads a golden set (the bundled sample until one is loaded) and runs it
+ * item by item through scoreTranscript under a profile. Completed runs are
+ * kept in localStorage, newest first, so later runs can be diffed against them.
+ */
+export function useGoldenSet(questions: Question[]): UseGoldenSetReturn {
+  const [goldenSet, setGoldenSet] = useState<GoldenSet | null>(sampleGoldenSet as GoldenSet);
+  const [error, setError] = useState<string | null>(null);
+  const [runs, setRuns] = useState<GoldenRun[]>(readStoredRuns);
+  const [results, setResults] = useState<GoldenItemResult[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const [progress, setProgress] = useState({ done: 0, total: 0 });
+  const cancelledRef = useRef(false);
+
+  const loadFromJSON = useCallback((json: string): boolean => {
+    try {
+      const data = JSON.parse(json) as GoldenSet;
+      const errors = validateGoldenSet(data, questions);
+      if (errors.length > 0) {
+        throw new Error(errors.slice(0, 3).join('; ') + (errors.length > 3 ? ` (+${errors.length - 3} more)` : ''));
+      }
+      setGoldenSet(data);
+      setResults([]);
+      setProgress({ done: 0, total: 0 });
+      setError(null);
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Invalid JSON');
+      return false;
+    }
+  }, [questions]);
+
+  const runGoldenSet = useCallback(async (profile: Profile): Promise<GoldenRun | null> => {
+    if (!goldenSet) return null;
+
+    const errors = validateGoldenSet(goldenSet, questions);
+    if (errors.length > 0) {
+      setError(errors[0]);
+      return null;
+    }
+
+    cancelledRef.current = false;
+    setIsRunning(true);
+    setError(null);
+    setResults([]);
+    setProgress({ done: 0, total: goldenSet.items.length });
+
+    const collected: GoldenItemResult[] = [];
+    for (const item of goldenSet.items) {
+      if (cancelledRef.current) break;
+
+      let result: GoldenItemResult;
+      try {
+        const question = questions.find(q => q.id === item.questionId);
+        if (!question) {
+          throw new Error(`Question ${item.questionId} is not in the loaded bank`);
+        }
+
+        const { result: score } = await scoreTranscript(
+          item.transcript,
+          question,
+          profile,
+          goldenFluencyMetrics(item, profile)
+        );
+
+        // Local fallback grades are not evaluator grades; count them as errors
+        if (score.scoringSource === 'local') {
+          throw new Error(score.reasons.accuracy[0] ?? 'Evaluator unavailable');
+        }
+
+        result = {
+          itemId: item.id,
+          scores: {
+            accuracyScore: score.accuracyScore,
+            fluencyScore: score.fluencyScore,
+            structureScore: score.structureScore,
+            overallScore: score.overallScore,
+            passed: score.passed
+          },
+          scoringSource: score.scoringSource
+        };
+      } catch (err) {
+        result = { itemId: item.id, error: err instanceof Error ? err.message : 'Scoring failed' };
+      }
+
+      collected.push(result);
+      setResults([...collected]);
+      setProgress({ done: collected.length, total: goldenSet.items.length });
+    }
+
+    setIsRunning(false);
+
+    // A cancelled run is partial, so it is not kept as a baseline
+    if (cancelledRef.current) return null;
+
+    const run: GoldenRun = {
+      id: `golden-${Date.now()}`,
+      timestamp: new Date().toISOString(),
+      setTitle: goldenSet.meta?.title || 'Untitled golden set',
+      profileId: profile.id,
+      profileName: profile.name,
+      evaluatorModel: profile.evaluator.model,
+      promptHash: hashPrompts(profile.evaluator),
+      promptVersion: findPromptVersion(profile.evaluator)?.version ?? null,
+      results: collected,
+      summary: summarizeGoldenRun(goldenSet, collected)
+    };
+
+    setRuns(prev => {
+      const next = [run, ...prev];
+      writeStoredRuns(next);
+      return next;
+    });
+
+    return run;
+  }, [goldenSet, questions]);
+
+  const cancel = useCallback(() => {
+    // Stops after the current item finishes
+    cancelledRef.current = true;
+  }, []);
+
+  const deleteRun = useCallback((id: string) => {
+    setRuns(prev => {
+      const next = prev.filter(run => run.id !== id);
+      writeStoredRuns(next);
+      return next;
+    });
+  }, []);
+
+  const clearRuns = useCallback(() => {
+    setRuns([]);
+    localStorage.removeItem(STORAGE_KEY);
+  }, []);
+
+  return {
+    goldenSet,
+    error,
+    runs,
+    results,
+    isRunning,
+    progress,
+    loadFromJSON,
+    runGoldenSet,
+    cancel,
+    deleteRun,
+    clearRuns
+  };
+}
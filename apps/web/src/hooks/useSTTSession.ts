@@ -1,8 +1,19 @@
 import { useState, useCallback, useRef, useEffect } from 'react';
-import type { Question, Profile, ScoreResult, TestRun, RunTelemetry, FluencyMetrics } from '../types';
-import { normalizeText } from '../utils/textNormalization';
-import { estimateFluencyMetrics, calculateFluencyScore } from '../utils/fluencyMetrics';
-import { api } from '../config';
+import type { Question, Profile, ProfileTranscription, QuestionBankVocabulary, ScoreResult, TestRun, RunTelemetry } from '../types';
+import { measureFluencyMetrics } from '../utils/fluencyMetrics';
+import { calculateRunCost } from '../utils/cost';
+import { DEFAULT_EVALUATOR_MODEL, DEFAULT_TRANSCRIPTION_MODEL } from '../utils/pricing';
+import { createSilenceSegmenter } from '../audio/silenceSegmenter';
+import type { SilenceSegmenter } from '../audio/silenceSegmenter';
+import { scoreTranscript, createTestRun } from '../scoring/scoreTranscript';
+import type { RecordedUtterance } from '../scoring/compareProfiles';
+import { requestClientSecret, openTranscriptionSocket, isSessionCreatedEvent, createSessionUpdateEvent } from '../realtime/transcriptionSocket';
+import type { TranscriptionSessionConfig } from '../realtime/transcriptionSocket';
+import { floatToPcm16, bytesToBase64, calculateRms, TARGET_SAMPLE_RATE } from '../realtime/pcm16';
+import { concatPcmChunks } from '../audio/wav';
+import { saveRecording } from '../storage/audioStore';
+import { isFileProvider, transcribeRecording, DEFAULT_STT_PROVIDER } from '../stt/fileTranscription';
+import { collectVocabulary, withVocabularyPrompt } from '../utils/transcriptionPrompt';
 
 // Storage keys for session persistence
 const STORAGE_KEY_TRANSCRIPT = 'stt-current-transcript';
@@ -20,48 +31,16 @@ interface UseSTTSessionReturn {
   interimTranscript: string;
   finalTranscript: string;
   scoreResult: ScoreResult | null;
+  lastUtterance: RecordedUtterance | null; // Last scored recording, for re-scoring under other profiles
   error: string | null;
-  startSession: (question: Question, profile: Profile) => Promise<void>;
+  startSession: (question: Question, profile: Profile, vocabulary?: QuestionBankVocabulary) => Promise<void>;
   stopSession: () => void;
   isRecording: boolean;
   telemetry: Partial<RunTelemetry>;
-  preConnect: () => Promise<void>;
+  preConnect: (profile?: Profile) => Promise<void>;
   clearSession: () => void;
 }
 
-interface ScoreRequest {
-  expectedAnswer: {
-    raw: string;
-    normalized: string;
-  };
-  transcript: {
-    raw: string;
-    normalized: string;
-  };
-  fluencyMetrics: FluencyMetrics;
-  structureRequirements: {
-    requireReceiver: boolean;
-    requireSender: boolean;
-    requireLocation: boolean;
-    requireIntent: boolean;
-    closingOptional: boolean;
-  };
-  profileParameters: {
-    weights: { accuracy: number; fluency: number; structure: number };
-    fluency: {
-      fillerPenaltyPerWord: number;
-      fillerPenaltyCap: number;
-      pausePenalty: number;
-      longPausePenalty: number;
-      pausePenaltyCap: number;
-    };
-  };
-  scoringPrompt: string;
-  explanationPrompt: string;
-  model?: string;
-  temperature?: number;
-}
-
 /**
  * WebSocket-based Speech-to-Text Session Hook
  *
@@ -76,6 +55,10 @@ interface ScoreRequest {
  * 5. Handle transcription events (delta, completed)
  * 6. On STOP: Stop audio capture, wait for final transcription, score
  *
+ * Profiles with a file transcription provider skip steps 1-2 and 4-5: the
+ * microphone is captured locally and the finished recording is posted to
+ * /api/stt/transcribe on STOP.
+ *
  * @see https://platform.openai.com/docs/guides/speech-to-text#streaming-transcriptions
  */
 export function useSTTSession(onRunComplete?: (run: TestRun) => void): UseSTTSessionReturn {
@@ -112,6 +95,7 @@ export function useSTTSession(onRunComplete?: (run: TestRun) => void): UseSTTSes
       return null;
     }
   });
+  const [lastUtterance, setLastUtterance] = useState<RecordedUtterance | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [telemetry, setTelemetry] = useState<Partial<RunTelemetry>>({});
 
@@ -131,6 +115,12 @@ export function useSTTSession(onRunComplete?: (run: TestRun) => void): UseSTTSes
   const recordingStartTimeRef = useRef<number>(0);
   const isRecordingRef = useRef<boolean>(false);
   const sessionReadyRef = useRef<boolean>(false); // Track if OpenAI session is ready
+  const segmenterRef = useRef<SilenceSegmenter | null>(null); // Measures pauses from captured audio
+  const recordedChunksRef = useRef<Uint8Array[]>([]); // PCM16 sent this run, kept for playback
+  const transcriptionModelRef = useRef<string>(DEFAULT_TRANSCRIPTION_MODEL); // Reported by the session route, for costing
+  const fileModeRef = useRef<boolean>(false); // Record-then-transcribe instead of the Realtime socket
+  const sessionConfigRef = useRef<TranscriptionSessionConfig | undefined>(undefined); // Repeated in session.update
+  const transcriptionRef = useRef<ProfileTranscription | undefined>(undefined); // Profile settings plus the question's vocabulary prompt
 
   // Transcript refs - always hold current values to avoid stale closures in stopSession
   const finalTranscriptRef = useRef<string>('');
@@ -141,6 +131,7 @@ export function useSTTSession(onRunComplete?: (run: TestRun) => void): UseSTTSes
   const preConnectedRef = useRef<boolean>(false);
   const preConnectedWsRef = useRef<WebSocket | null>(null);
   const preConnectedStreamRef = useRef<MediaStream | null>(null);
+  const preConnectedProfileRef = useRef<Profile | null>(null); // Settings the pre-connected session was created with
 
   // Cleanup on unmount
   useEffect(() => {
@@ -231,163 +222,45 @@ export function useSTTSession(onRunComplete?: (run: TestRun) => void): UseSTTSes
     preConnectedRef.current = false;
   }, []);
 
-  const scoreTranscript = async (
-    transcript: string,
-    question: Question,
-    profile: Profile,
-    audioDurationMs: number
-  ): Promise<ScoreResult> => {
-    const evalStart = Date.now();
-
-    // Build normalized versions
-    const transcriptNormalized = normalizeText(transcript, {
-      convertNumbersToDigits: profile.normalization.digitWordEquivalence,
-      removeFillers: true
-    });
-
-    const expectedNormalized = normalizeText(question.expectedAnswer.text, {
-      convertNumbersToDigits: profile.normalization.digitWordEquivalence
-    });
-
-    // Estimate fluency metrics
-    const fluencyMetrics = estimateFluencyMetrics(transcript, audioDurationMs);
-
-    // Get structure requirements (use defaults if not specified)
-    const structureRequirements = question.expectedAnswer.structure || {
-      requireReceiver: true,
-      requireSender: true,
-      requireLocation: false,
-      requireIntent: true,
-      closingOptional: true
-    };
-
-    // Build the request payload
-    const requestPayload: ScoreRequest = {
-      expectedAnswer: {
-        raw: question.expectedAnswer.text,
-        normalized: expectedNormalized
-      },
-      transcript: {
-        raw: transcript,
-        normalized: transcriptNormalized
-      },
-      fluencyMetrics,
-      structureRequirements,
-      profileParameters: {
-        weights: profile.weights,
-        fluency: {
-          fillerPenaltyPerWord: profile.fluency.fillerPenaltyPerWord,
-          fillerPenaltyCap: profile.fluency.fillerPenaltyCap,
-          pausePenalty: profile.fluency.pausePenalty,
-          longPausePenalty: profile.fluency.longPausePenalty,
-          pausePenaltyCap: 20 // Default cap
-        }
-      },
-      scoringPrompt: profile.evaluator.scoringPromptTemplate,
-      explanationPrompt: profile.evaluator.explanationPromptTemplate,
-      model: profile.evaluator.model,
-      temperature: profile.evaluator.temperature
-    };
-
-    const response = await fetch(api.evaluatorScore, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(requestPayload)
-    });
-
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      throw new Error(errorData.error || 'Failed to score transcript');
-    }
-
-    const result = await response.json();
-
-    setTelemetry(prev => ({
-      ...prev,
-      evaluatorLatencyMs: Date.now() - evalStart
-    }));
-
-    // Calculate deterministic fluency score using profile parameters
-    const calculatedFluency = calculateFluencyScore(fluencyMetrics, {
-      fillerPenaltyPerWord: profile.fluency.fillerPenaltyPerWord,
-      fillerPenaltyCap: profile.fluency.fillerPenaltyCap,
-      pausePenalty: profile.fluency.pausePenalty,
-      longPausePenalty: profile.fluency.longPausePenalty,
-      pausePenaltyCap: 20 // Default cap
-    });
-
-    // Use the calculated fluency score instead of LLM's estimate
-    // This makes the fluency penalties in Parameters actually functional
-    const adjustedFluencyScore = calculatedFluency.score;
-
-    // Recalculate overall score using profile weights with the adjusted fluency
-    const adjustedOverallScore = Math.round(
-      result.accuracyScore * profile.weights.accuracy +
-      adjustedFluencyScore * profile.weights.fluency +
-      result.structureScore * profile.weights.structure
-    );
-
-    // Determine pass/fail based on profile benchmarks
-    const passed = adjustedOverallScore >= profile.benchmarks.passMarkOverall;
-
-    // Add fluency deductions to the reasons
-    const adjustedReasons = {
-      ...result.reasons,
-      fluency: calculatedFluency.deductions.length > 0
-        ? calculatedFluency.deductions.join('; ')
-        : result.reasons.fluency
-    };
-
-    return {
-      ...result,
-      fluencyScore: adjustedFluencyScore,
-      overallScore: adjustedOverallScore,
-      reasons: adjustedReasons,
-      passed
-    };
-  };
-
   /**
    * Create a WebSocket connection to OpenAI's Realtime transcription API
    */
-  const createWebSocketSession = async (): Promise<{
+  const createWebSocketSession = async (
+    profile: Profile | null,
+    transcription: ProfileTranscription | undefined = profile?.transcription
+  ): Promise<{
     ws: WebSocket;
     stream: MediaStream;
   }> => {
     console.log('[WebSocket] Creating new transcription session');
 
-    // Step 1: Get ephemeral token from our server (with optional VAD settings from profile)
-    const vadSettings = profileRef.current?.vad;
-    console.log('[WebSocket] Requesting ephemeral token...', { vadSettings });
-    const tokenResponse = await fetch(api.webrtcSession, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        vad: vadSettings ? {
-          threshold: vadSettings.threshold,
-          prefixPaddingMs: vadSettings.prefixPaddingMs,
-          silenceDurationMs: vadSettings.silenceDurationMs
-        } : undefined
-      })
-    });
-
-    if (!tokenResponse.ok) {
-      const errorData = await tokenResponse.json().catch(() => ({}));
-      throw new Error(errorData.error || 'Failed to get ephemeral token');
-    }
-
-    const tokenData = await tokenResponse.json();
+    // Step 1: Get ephemeral token from our server (with optional VAD and transcription settings from profile)
+    const vadSettings = profile?.vad;
+    console.log('[WebSocket] Requesting ephemeral token...', { vadSettings, transcription });
+    const tokenData = await requestClientSecret(vadSettings, transcription);
+    transcriptionModelRef.current = tokenData.model || DEFAULT_TRANSCRIPTION_MODEL;
+    sessionConfigRef.current = tokenData.transcription;
     console.log('[WebSocket] Got ephemeral token:', {
       sessionId: tokenData.sessionId,
       model: tokenData.model,
       expiresAt: tokenData.expiresAt
     });
 
-    if (!tokenData.clientSecret) {
-      throw new Error('No client secret in token response');
-    }
-
     // Step 2: Get microphone access
+    const stream = await requestMicrophone();
+
+    // Step 3: Connect to OpenAI's WebSocket endpoint with ephemeral token
+    console.log('[WebSocket] Connecting to OpenAI transcription endpoint...');
+    const ws = await openTranscriptionSocket(tokenData.clientSecret);
+    sessionReadyRef.current = true;
+
+    return { ws, stream };
+  };
+
+  /**
+   * Get microphone access with the capture constraints transcription expects
+   */
+  const requestMicrophone = async (): Promise<MediaStream> => {
     console.log('[WebSocket] Requesting microphone access');
     const stream = await navigator.mediaDevices.getUserMedia({
       audio: {
@@ -409,73 +282,7 @@ export function useSTTSession(onRunComplete?: (run: TestRun) => void): UseSTTSes
       noiseSuppression: audioSettings.noiseSuppression
     });
 
-    // Step 3: Connect to OpenAI's WebSocket endpoint with ephemeral token
-    console.log('[WebSocket] Connecting to OpenAI transcription endpoint...');
-    const wsUrl = 'wss://api.openai.com/v1/realtime?intent=transcription';
-
-    // Connect using subprotocols for authentication
-    // NOTE: For GA API, we must NOT include 'openai-beta.realtime-v1' header
-    // That header is only for beta API and causes version mismatch with GA client secrets
-    const ws = new WebSocket(wsUrl, [
-      'realtime',
-      `openai-insecure-api-key.${tokenData.clientSecret}`
-    ]);
-
-    // Wait for WebSocket to open AND session to be created
-    await new Promise<void>((resolve, reject) => {
-      const timeout = setTimeout(() => {
-        reject(new Error('WebSocket connection timeout'));
-      }, 15000); // Increased timeout to allow for session creation
-
-      let wsOpened = false;
-
-      ws.onopen = () => {
-        console.log('[WebSocket] WebSocket connected, waiting for transcription_session.created...');
-        wsOpened = true;
-      };
-
-      ws.onmessage = (e) => {
-        try {
-          const event = JSON.parse(e.data);
-          console.log('[WebSocket] Setup event:', event.type);
-
-          // GA API sends 'session.created', beta API sends 'transcription_session.created'
-          const isSessionCreated = event.type === 'transcription_session.created' || event.type === 'session.created';
-          if (isSessionCreated) {
-            clearTimeout(timeout);
-            sessionReadyRef.current = true;
-            console.log('[WebSocket] ✅ Session ready! Config:', {
-              id: event.session?.id,
-              input_audio_format: event.session?.input_audio_format,
-              model: event.session?.input_audio_transcription?.model,
-              turn_detection: event.session?.turn_detection?.type
-            });
-            resolve();
-          } else if (event.type === 'error') {
-            clearTimeout(timeout);
-            console.error('[WebSocket] Session error:', event.error);
-            reject(new Error(event.error?.message || 'Session creation failed'));
-          }
-        } catch (err) {
-          console.warn('[WebSocket] Failed to parse setup event:', e.data);
-        }
-      };
-
-      ws.onerror = (err) => {
-        clearTimeout(timeout);
-        console.error('[WebSocket] Connection error:', err);
-        reject(new Error('WebSocket connection failed'));
-      };
-
-      ws.onclose = (e) => {
-        if (!wsOpened) {
-          clearTimeout(timeout);
-          reject(new Error(`WebSocket closed before opening: ${e.code} ${e.reason}`));
-        }
-      };
-    });
-
-    return { ws, stream };
+    return stream;
   };
 
   /**
@@ -483,8 +290,9 @@ export function useSTTSession(onRunComplete?: (run: TestRun) => void): UseSTTSes
    *
    * IMPORTANT: OpenAI expects PCM16 at 24kHz sample rate.
    * Browsers often capture at 48kHz, so we need to handle resampling.
+   * Without a WebSocket (file providers) the audio is only recorded.
    */
-  const setupAudioCapture = async (ws: WebSocket, stream: MediaStream) => {
+  const setupAudioCapture = async (ws: WebSocket | null, stream: MediaStream) => {
     console.log('[WebSocket] Setting up audio capture');
 
     // Get the actual sample rate from the track
@@ -503,7 +311,6 @@ export function useSTTSession(onRunComplete?: (run: TestRun) => void): UseSTTSes
     console.log('[WebSocket] AudioContext sample rate:', actualSampleRate);
 
     // Calculate resampling ratio
-    const TARGET_SAMPLE_RATE = 24000;
     const resampleRatio = TARGET_SAMPLE_RATE / actualSampleRate;
     console.log('[WebSocket] Resample ratio:', resampleRatio, `(${actualSampleRate}Hz -> ${TARGET_SAMPLE_RATE}Hz)`);
 
@@ -518,12 +325,12 @@ export function useSTTSession(onRunComplete?: (run: TestRun) => void): UseSTTSes
     let audioChunkCount = 0;
 
     scriptProcessor.onaudioprocess = (e) => {
-      if (!isRecordingRef.current || ws.readyState !== WebSocket.OPEN) {
+      if (!isRecordingRef.current || (ws && ws.readyState !== WebSocket.OPEN)) {
         return;
       }
 
       // CRITICAL: Only send audio after session is confirmed ready
-      if (!sessionReadyRef.current) {
+      if (ws && !sessionReadyRef.current) {
         console.log('[WebSocket] Skipping audio - session not ready yet');
         return;
       }
@@ -531,13 +338,14 @@ export function useSTTSession(onRunComplete?: (run: TestRun) => void): UseSTTSes
       const inputData = e.inputBuffer.getChannelData(0);
 
       // Calculate audio level for debugging (RMS)
-      let sumSquares = 0;
       let maxSample = 0;
       for (let i = 0; i < inputData.length; i++) {
-        sumSquares += inputData[i] * inputData[i];
         maxSample = Math.max(maxSample, Math.abs(inputData[i]));
       }
-      const rms = Math.sqrt(sumSquares / inputData.length);
+      const rms = calculateRms(inputData);
+
+      // Feed the silence segmenter so pauses are measured from real audio
+      segmenterRef.current?.push(rms, (inputData.length / actualSampleRate) * 1000);
 
       audioChunkCount++;
 
@@ -569,26 +377,15 @@ export function useSTTSession(onRunComplete?: (run: TestRun) => void): UseSTTSes
 
       // Convert Float32 (-1 to 1) to Int16 PCM with explicit little-endian encoding
       // OpenAI requires: 16-bit PCM, 24kHz, mono, little-endian
-      const pcm16Bytes = new Uint8Array(resampled.length * 2);
+      const pcm16Bytes = floatToPcm16(resampled);
       const dataView = new DataView(pcm16Bytes.buffer);
+      const base64Audio = bytesToBase64(pcm16Bytes);
+      recordedChunksRef.current.push(pcm16Bytes);
 
-      for (let i = 0; i < resampled.length; i++) {
-        // Clamp to [-1, 1] and scale to Int16 range
-        const s = Math.max(-1, Math.min(1, resampled[i]));
-        const sample = s < 0 ? Math.round(s * 0x8000) : Math.round(s * 0x7FFF);
-        // Write as little-endian explicitly
-        dataView.setInt16(i * 2, sample, true); // true = little-endian
-      }
-
-      // Convert to base64 using a more robust method
-      // Build binary string in chunks to avoid stack overflow
-      let binaryString = '';
-      const chunkSize = 8192;
-      for (let i = 0; i < pcm16Bytes.length; i += chunkSize) {
-        const chunk = pcm16Bytes.subarray(i, Math.min(i + chunkSize, pcm16Bytes.length));
-        binaryString += String.fromCharCode.apply(null, Array.from(chunk));
+      // File providers transcribe the recording on stop
+      if (!ws) {
+        return;
       }
-      const base64Audio = btoa(binaryString);
 
       // Log first chunk details for debugging
       if (audioChunkCount === 1) {
@@ -696,26 +493,33 @@ export function useSTTSession(onRunComplete?: (run: TestRun) => void): UseSTTSes
   /**
    * Pre-connect: establish WebSocket connection in advance for instant recording start
    */
-  const preConnect = useCallback(async () => {
-    if (preConnectedRef.current) {
+  const preConnect = useCallback(async (profile?: Profile) => {
+    const targetProfile = profile ?? profileRef.current;
+    if (preConnectedRef.current && preConnectedProfileRef.current === targetProfile) {
       console.log('[WebSocket] Pre-connection already established');
       return;
     }
 
-    // Clean up any existing pre-connection
+    // Clean up any existing pre-connection (including one made with other profile settings)
     if (preConnectedWsRef.current) {
       if (preConnectedWsRef.current.readyState === WebSocket.OPEN) {
         preConnectedWsRef.current.close();
       }
       preConnectedWsRef.current = null;
     }
+    if (preConnectedStreamRef.current) {
+      preConnectedStreamRef.current.getTracks().forEach(track => track.stop());
+      preConnectedStreamRef.current = null;
+    }
+    preConnectedRef.current = false;
 
     try {
       console.log('[WebSocket] Pre-connecting...');
-      const { ws, stream } = await createWebSocketSession();
+      const { ws, stream } = await createWebSocketSession(targetProfile);
 
       preConnectedWsRef.current = ws;
       preConnectedStreamRef.current = stream;
+      preConnectedProfileRef.current = targetProfile;
 
       // Set up basic event handlers for pre-connection
       ws.onmessage = (e) => {
@@ -725,8 +529,7 @@ export function useSTTSession(onRunComplete?: (run: TestRun) => void): UseSTTSes
 
           // Track session readiness for pre-connection too
           // GA API sends 'session.created', beta API sends 'transcription_session.created'
-          const isSessionCreated = event.type === 'transcription_session.created' || event.type === 'session.created';
-          if (isSessionCreated) {
+          if (isSessionCreatedEvent(event)) {
             sessionReadyRef.current = true;
             console.log('[WebSocket] Pre-connection session ready:', {
               id: event.session?.id,
@@ -735,19 +538,7 @@ export function useSTTSession(onRunComplete?: (run: TestRun) => void): UseSTTSes
 
             // CRITICAL: Send session.update for pre-connection too
             if (ws.readyState === WebSocket.OPEN) {
-              ws.send(JSON.stringify({
-                type: 'session.update',
-                session: {
-                  audio: {
-                    input: {
-                      transcription: {
-                        model: 'gpt-4o-mini-transcribe',
-                        language: 'en'
-                      }
-                    }
-                  }
-                }
-              }));
+              ws.send(JSON.stringify(createSessionUpdateEvent(sessionConfigRef.current)));
               console.log('[WebSocket] ✅ Pre-connection session.update sent');
             }
           }
@@ -756,14 +547,15 @@ export function useSTTSession(onRunComplete?: (run: TestRun) => void): UseSTTSes
         }
       };
 
+      // A replaced pre-connection must not clear the state of its successor
       ws.onerror = (err) => {
         console.error('[WebSocket] Pre-connection error:', err);
-        preConnectedRef.current = false;
+        if (preConnectedWsRef.current === ws) preConnectedRef.current = false;
       };
 
       ws.onclose = () => {
         console.log('[WebSocket] Pre-connection closed');
-        preConnectedRef.current = false;
+        if (preConnectedWsRef.current === ws) preConnectedRef.current = false;
       };
 
       preConnectedRef.current = true;
@@ -778,12 +570,13 @@ export function useSTTSession(onRunComplete?: (run: TestRun) => void): UseSTTSes
   /**
    * Start a recording session
    */
-  const startSession = useCallback(async (question: Question, profile: Profile) => {
+  const startSession = useCallback(async (question: Question, profile: Profile, vocabulary?: QuestionBankVocabulary) => {
     try {
       setError(null);
       setInterimTranscript('');
       setFinalTranscript('');
       setScoreResult(null);
+      setLastUtterance(null);
       setTelemetry({});
 
       // Reset transcript refs for new session
@@ -794,9 +587,36 @@ export function useSTTSession(onRunComplete?: (run: TestRun) => void): UseSTTSes
       questionRef.current = question;
       profileRef.current = profile;
       startTimeRef.current = Date.now();
+      fileModeRef.current = isFileProvider(profile.transcription?.provider);
+      transcriptionRef.current = withVocabularyPrompt(profile.transcription, collectVocabulary(vocabulary, question));
+
+      const beginRecording = () => {
+        segmenterRef.current = createSilenceSegmenter();
+        recordedChunksRef.current = [];
+        recordingStartTimeRef.current = Date.now();
+        isRecordingRef.current = true;
+        setStatus('recording');
+      };
+
+      if (fileModeRef.current) {
+        // Microphone only; the whole recording is transcribed on stop
+        console.log('[Session] Recording for file transcription:', profile.transcription?.provider);
+        cleanup();
+        setStatus('connecting');
+
+        const stream = await requestMicrophone();
+        mediaStreamRef.current = stream;
+        connectTimeRef.current = Date.now() - startTimeRef.current;
+        setTelemetry(prev => ({ ...prev, connectTimeMs: connectTimeRef.current }));
+
+        await setupAudioCapture(null, stream);
+        beginRecording();
+        return;
+      }
 
       // Check if we have a pre-connected session ready
       const usePreConnected = preConnectedRef.current &&
+        preConnectedProfileRef.current === profile &&
         preConnectedWsRef.current?.readyState === WebSocket.OPEN;
 
       let ws: WebSocket;
@@ -817,6 +637,14 @@ export function useSTTSession(onRunComplete?: (run: TestRun) => void): UseSTTSes
         preConnectedStreamRef.current = null;
         preConnectedRef.current = false;
 
+        // Pre-connected before the question was known: switch to its vocabulary prompt
+        const prompt = transcriptionRef.current?.prompt ?? '';
+        if (sessionConfigRef.current && sessionConfigRef.current.prompt !== prompt) {
+          sessionConfigRef.current = { ...sessionConfigRef.current, prompt };
+          ws.send(JSON.stringify(createSessionUpdateEvent(sessionConfigRef.current)));
+          console.log('[WebSocket] session.update sent with the question vocabulary prompt');
+        }
+
         connectTimeRef.current = Date.now() - startTimeRef.current;
         setTelemetry(prev => ({ ...prev, connectTimeMs: connectTimeRef.current }));
         setStatus('connected');
@@ -828,7 +656,7 @@ export function useSTTSession(onRunComplete?: (run: TestRun) => void): UseSTTSes
         setStatus('connecting');
 
         try {
-          const session = await createWebSocketSession();
+          const session = await createWebSocketSession(profile, transcriptionRef.current);
           ws = session.ws;
           stream = session.stream;
 
@@ -866,19 +694,7 @@ export function useSTTSession(onRunComplete?: (run: TestRun) => void): UseSTTSes
               // GA workflow requires this for transcription events to be received
               console.log('[WebSocket] Sending session.update to finalize config...');
               if (ws.readyState === WebSocket.OPEN) {
-                ws.send(JSON.stringify({
-                  type: 'session.update',
-                  session: {
-                    audio: {
-                      input: {
-                        transcription: {
-                          model: 'gpt-4o-mini-transcribe',
-                          language: 'en'
-                        }
-                      }
-                    }
-                  }
-                }));
+                ws.send(JSON.stringify(createSessionUpdateEvent(sessionConfigRef.current)));
                 console.log('[WebSocket] ✅ session.update sent');
               }
               break;
@@ -994,9 +810,7 @@ export function useSTTSession(onRunComplete?: (run: TestRun) => void): UseSTTSes
       await setupAudioCapture(ws, stream);
 
       // Start recording
-      recordingStartTimeRef.current = Date.now();
-      isRecordingRef.current = true;
-      setStatus('recording');
+      beginRecording();
 
       console.log('[WebSocket] 🎤 Recording started');
 
@@ -1011,7 +825,8 @@ export function useSTTSession(onRunComplete?: (run: TestRun) => void): UseSTTSes
    * Stop the recording session and get scoring
    */
   const stopSession = useCallback(async () => {
-    if (!wsRef.current || !questionRef.current || !profileRef.current) {
+    const fileMode = fileModeRef.current;
+    if ((!wsRef.current && !fileMode) || !questionRef.current || !profileRef.current) {
       cleanup();
       setStatus('idle');
       return;
@@ -1027,91 +842,136 @@ export function useSTTSession(onRunComplete?: (run: TestRun) => void): UseSTTSes
     const audioDurationMs = Date.now() - recordingStartTimeRef.current;
     console.log('[WebSocket] Stopping session:', { audioDurationMs });
 
-    // Note: With server VAD enabled, the audio buffer is automatically committed
-    // when speech stops. We don't need to manually commit here.
-    // If we do commit and the buffer is empty (already committed by VAD),
-    // we'll get an error which we can safely ignore.
-    if (wsRef.current.readyState === WebSocket.OPEN) {
+    // Measured from session start, like the Realtime transcription events
+    let fileTimings: Pick<RunTelemetry, 'timeToFirstTextMs' | 'timeToFinalMs'> | null = null;
+
+    if (fileMode) {
+      cleanup();
       try {
-        wsRef.current.send(JSON.stringify({
-          type: 'input_audio_buffer.commit'
-        }));
-        console.log('[WebSocket] Sent input_audio_buffer.commit (may already be committed by VAD)');
+        const result = await transcribeRecording(
+          concatPcmChunks(recordedChunksRef.current),
+          transcriptionRef.current ?? {}
+        );
+        console.log('[Session] File transcription:', { provider: result.provider, model: result.model, latencyMs: result.latencyMs });
+        transcriptionModelRef.current = result.model;
+        finalTranscriptRef.current = result.transcript.trim();
+        setFinalTranscript(finalTranscriptRef.current);
+
+        const elapsedMs = Date.now() - startTimeRef.current;
+        fileTimings = { timeToFirstTextMs: elapsedMs, timeToFinalMs: elapsedMs };
+        setTelemetry(prev => ({ ...prev, ...fileTimings }));
       } catch (err) {
-        console.log('[WebSocket] Could not send commit (connection may be closing)');
+        setError(err instanceof Error ? err.message : 'Failed to transcribe recording');
+      }
+    } else {
+      // Note: With server VAD enabled, the audio buffer is automatically committed
+      // when speech stops. We don't need to manually commit here.
+      // If we do commit and the buffer is empty (already committed by VAD),
+      // we'll get an error which we can safely ignore.
+      if (wsRef.current && wsRef.current.readyState === WebSocket.OPEN) {
+        try {
+          wsRef.current.send(JSON.stringify({
+            type: 'input_audio_buffer.commit'
+          }));
+          console.log('[WebSocket] Sent input_audio_buffer.commit (may already be committed by VAD)');
+        } catch (err) {
+          console.log('[WebSocket] Could not send commit (connection may be closing)');
+        }
       }
-    }
 
-    // Wait for final transcription to complete (or timeout after 5s)
-    console.log('[WebSocket] Waiting for transcription to finalize...');
-    await Promise.race([
-      new Promise<void>(resolve => {
-        finalizeResolveRef.current = resolve;
-      }),
-      new Promise<void>(resolve => setTimeout(resolve, 5000)) // 5s fallback for network issues
-    ]);
-    finalizeResolveRef.current = null; // Clear in case timeout won
+      // Wait for final transcription to complete (or timeout after 5s)
+      console.log('[WebSocket] Waiting for transcription to finalize...');
+      await Promise.race([
+        new Promise<void>(resolve => {
+          finalizeResolveRef.current = resolve;
+        }),
+        new Promise<void>(resolve => setTimeout(resolve, 5000)) // 5s fallback for network issues
+      ]);
+      finalizeResolveRef.current = null; // Clear in case timeout won
 
-    cleanup();
+      cleanup();
+    }
 
     // Score the transcript - read from refs to get latest values (avoids stale closure)
     const transcript = [finalTranscriptRef.current, interimTranscriptRef.current].filter(Boolean).join(' ').trim();
     console.log('[WebSocket] Final transcript from refs:', transcript);
     if (transcript) {
       try {
-        const result = await scoreTranscript(
+        // Pause metrics from the captured audio, classified by the profile thresholds
+        const segmentation = segmenterRef.current?.finish();
+        segmenterRef.current = null;
+        const fluencyMetrics = measureFluencyMetrics(
+          transcript,
+          audioDurationMs,
+          segmentation,
+          profileRef.current.fluency
+        );
+
+        const { result, evaluatorLatencyMs, usage, validation, evaluator } = await scoreTranscript(
           transcript,
           questionRef.current,
           profileRef.current,
-          audioDurationMs
+          fluencyMetrics
         );
 
         setScoreResult(result);
+        setLastUtterance({
+          transcript,
+          question: questionRef.current,
+          durationMs: audioDurationMs,
+          segmentation
+        });
 
         const totalLatency = Date.now() - startTimeRef.current;
 
+        // Cost from the measured audio and the evaluator's reported token usage
+        const cost = calculateRunCost({
+          audioDurationMs,
+          transcriptionModel: transcriptionModelRef.current,
+          transcriptionProvider: profileRef.current.transcription?.provider,
+          evaluatorModel: evaluator?.model || profileRef.current.evaluator.model || DEFAULT_EVALUATOR_MODEL,
+          evaluatorProvider: evaluator?.provider ?? profileRef.current.evaluator.provider,
+          usage
+        });
+
         const runTelemetry: RunTelemetry = {
           connectTimeMs: telemetry.connectTimeMs || 0,
-          timeToFirstTextMs: telemetry.timeToFirstTextMs || 0,
-          timeToFinalMs: telemetry.timeToFinalMs || 0,
+          timeToFirstTextMs: fileTimings?.timeToFirstTextMs ?? (telemetry.timeToFirstTextMs || 0),
+          timeToFinalMs: fileTimings?.timeToFinalMs ?? (telemetry.timeToFinalMs || 0),
           totalLatencyMs: totalLatency,
-          evaluatorLatencyMs: telemetry.evaluatorLatencyMs || 0,
+          evaluatorLatencyMs: evaluatorLatencyMs || 0,
           audioDurationMs,
-          estimatedCost: calculateCost(audioDurationMs)
+          estimatedCost: cost.totalCost,
+          cost,
+          evaluatorValidation: validation,
+          evaluator,
+          transcriptionProvider: profileRef.current.transcription?.provider ?? DEFAULT_STT_PROVIDER
         };
 
         setTelemetry(runTelemetry);
 
         // Create and emit run record
         if (onRunComplete) {
-          const transcriptNormalized = normalizeText(transcript, {
-            convertNumbersToDigits: profileRef.current.normalization.digitWordEquivalence,
-            removeFillers: true
+          const run = createTestRun({
+            transcript,
+            question: questionRef.current,
+            profile: profileRef.current,
+            fluencyMetrics,
+            score: result,
+            telemetry: runTelemetry
           });
 
-          const expectedNormalized = normalizeText(questionRef.current.expectedAnswer.text, {
-            convertNumbersToDigits: profileRef.current.normalization.digitWordEquivalence
-          });
+          // Keep the captured audio so the run can be listened to from Logs
+          let audioId: string | undefined;
+          try {
+            await saveRecording(run.id, concatPcmChunks(recordedChunksRef.current), TARGET_SAMPLE_RATE);
+            audioId = run.id;
+          } catch (err) {
+            console.warn('[Session] Failed to store run audio:', err);
+          }
+          recordedChunksRef.current = [];
 
-          const run: TestRun = {
-            id: `run-${Date.now()}`,
-            questionId: questionRef.current.id,
-            timestamp: new Date().toISOString(),
-            transcript: {
-              raw: transcript,
-              normalized: transcriptNormalized
-            },
-            expectedAnswer: {
-              raw: questionRef.current.expectedAnswer.text,
-              normalized: expectedNormalized
-            },
-            fluencyMetrics: estimateFluencyMetrics(transcript, audioDurationMs),
-            score: result,
-            telemetry: runTelemetry,
-            profileId: profileRef.current.id,
-            status: 'success'
-          };
-          onRunComplete(run);
+          onRunComplete(audioId ? { ...run, audioId } : run);
         }
       } catch (err) {
         setError(err instanceof Error ? err.message : 'Failed to score transcript');
@@ -1120,6 +980,9 @@ export function useSTTSession(onRunComplete?: (run: TestRun) => void): UseSTTSes
 
     setStatus('idle');
 
+    // File providers have no session to keep warm
+    if (fileMode) return;
+
     // Pre-connect for the next recording (in background)
     setTimeout(() => {
       console.log('[WebSocket] Pre-connecting for next recording...');
@@ -1135,6 +998,7 @@ export function useSTTSession(onRunComplete?: (run: TestRun) => void): UseSTTSes
     setFinalTranscript('');
     setInterimTranscript('');
     setScoreResult(null);
+    setLastUtterance(null);
     setError(null);
     setTelemetry({});
 
@@ -1158,6 +1022,7 @@ export function useSTTSession(onRunComplete?: (run: TestRun) => void): UseSTTSes
     interimTranscript,
     finalTranscript,
     scoreResult,
+    lastUtterance,
     error,
     startSession,
     stopSession,
@@ -1168,13 +1033,3 @@ export function useSTTSession(onRunComplete?: (run: TestRun) => void): UseSTTSes
   };
 }
 
-function calculateCost(audioDurationMs: number): number {
-  // OpenAI Realtime transcription pricing: approximately $0.006 per minute
-  const minutes = audioDurationMs / 60000;
-  const transcriptionCost = minutes * 0.006;
-
-  // Evaluator call: ~$0.001 per evaluation (rough estimate for gpt-4o-mini)
-  const evaluatorCost = 0.001;
-
-  return transcriptionCost + evaluatorCost;
-}
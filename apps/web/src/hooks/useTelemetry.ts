@@ -1,29 +1,125 @@
-import { useState, useCallback, useMemo } from 'react';
-import type { TestRun, SessionTelemetry } from '../types';
+import { useState, useCallback, useMemo, useEffect } from 'react';
+import type { TestRun, SessionTelemetry, RunSyncStatus } from '../types';
+import { clearRecordings, deleteRecording } from '../storage/audioStore';
+import { fetchAllRuns, saveRun, syncRuns, deleteRun } from '../storage/runsApi';
 
 const STORAGE_KEY = 'stt-console-runs';
+// Set once the history recorded before the server store existed has been uploaded
+const MIGRATED_KEY = 'stt-console-runs-migrated';
+// IDs of cached runs the server has not confirmed yet
+const PENDING_KEY = 'stt-console-runs-pending';
+
+// Once the server has everything, localStorage only keeps the most recent runs as an offline copy
+const MAX_CACHED_RUNS = 200;
 
 interface UseTelemetryReturn {
   runs: TestRun[];
   telemetry: SessionTelemetry;
+  syncStatus: RunSyncStatus;
   addRun: (run: TestRun) => void;
+  removeRun: (id: string) => void;
   clearTelemetry: () => void;
   getRunById: (id: string) => TestRun | undefined;
   exportRuns: () => TestRun[];
 }
 
-export function useTelemetry(): UseTelemetryReturn {
-  const [runs, setRuns] = useState<TestRun[]>(() => {
-    const stored = localStorage.getItem(STORAGE_KEY);
-    if (stored) {
-      try {
-        return JSON.parse(stored) as TestRun[];
-      } catch {
-        return [];
-      }
+function readCachedRuns(): TestRun[] {
+  const stored = localStorage.getItem(STORAGE_KEY);
+  if (stored) {
+    try {
+      return JSON.parse(stored) as TestRun[];
+    } catch {
+      return [];
     }
-    return [];
-  });
+  }
+  return [];
+}
+
+function writeCachedRuns(runs: TestRun[]) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(runs.slice(0, MAX_CACHED_RUNS)));
+}
+
+function readPendingIds(): Set<string> {
+  try {
+    return new Set(JSON.parse(localStorage.getItem(PENDING_KEY) ?? '[]') as string[]);
+  } catch {
+    return new Set();
+  }
+}
+
+function updatePendingIds(update: (ids: Set<string>) => void) {
+  const ids = readPendingIds();
+  update(ids);
+  localStorage.setItem(PENDING_KEY, JSON.stringify(Array.from(ids)));
+}
+
+/**
+ * Union by run ID, most recent first
+ */
+function mergeRuns(a: TestRun[], b: TestRun[]): TestRun[] {
+  const byId = new Map<string, TestRun>();
+  [...a, ...b].forEach(run => byId.set(run.id, run));
+  return Array.from(byId.values())
+    .sort((x, y) => new Date(y.timestamp).getTime() - new Date(x.timestamp).getTime());
+}
+
+// Upload unsynced runs and load the shared history once per page load, shared by every hook instance.
+// Only runs the server never confirmed are uploaded (or the whole cache, once, on the first load after
+// the server store was introduced), so runs deleted or cleared from another machine stay deleted.
+let serverLoad: Promise<TestRun[]> | null = null;
+
+function loadServerRuns(): Promise<TestRun[]> {
+  if (!serverLoad) {
+    serverLoad = (async () => {
+      const migrated = localStorage.getItem(MIGRATED_KEY) !== null;
+      const pendingIds = readPendingIds();
+      const unsynced = readCachedRuns().filter(run => !migrated || pendingIds.has(run.id));
+      if (unsynced.length > 0) {
+        const result = await syncRuns(unsynced);
+        if (result.rejected.length > 0) {
+          console.warn('[Telemetry] Server rejected local runs:', result.rejected);
+        }
+        // Rejected runs would be rejected again on every load
+        updatePendingIds(ids => unsynced.forEach(run => ids.delete(run.id)));
+      }
+      localStorage.setItem(MIGRATED_KEY, new Date().toISOString());
+      return fetchAllRuns();
+    })();
+    serverLoad.catch(() => { serverLoad = null; }); // Retry on the next mount
+  }
+  return serverLoad;
+}
+
+export function useTelemetry(): UseTelemetryReturn {
+  const [runs, setRuns] = useState<TestRun[]>(readCachedRuns);
+  const [syncStatus, setSyncStatus] = useState<RunSyncStatus>('local');
+
+  useEffect(() => {
+    let cancelled = false;
+    const cachedIds = new Set(readCachedRuns().map(run => run.id));
+    setSyncStatus('syncing');
+
+    loadServerRuns()
+      .then(serverRuns => {
+        if (cancelled) return;
+        // The server is authoritative for cached runs; keep only runs it has not seen yet
+        // (not confirmed, or recorded while the history was loading)
+        const pendingIds = readPendingIds();
+        setRuns(prev => {
+          const local = prev.filter(run => pendingIds.has(run.id) || !cachedIds.has(run.id));
+          const merged = mergeRuns(serverRuns, local);
+          writeCachedRuns(merged);
+          return merged;
+        });
+        setSyncStatus('synced');
+      })
+      .catch(err => {
+        console.warn('[Telemetry] Run store unavailable, using local history only:', err);
+        if (!cancelled) setSyncStatus('offline');
+      });
+
+    return () => { cancelled = true; };
+  }, []);
 
   const telemetry = useMemo((): SessionTelemetry => {
     if (runs.length === 0) {
@@ -66,16 +162,37 @@ export function useTelemetry(): UseTelemetryReturn {
   }, [runs]);
 
   const addRun = useCallback((run: TestRun) => {
-    setRuns(prev => {
-      const updated = [run, ...prev]; // Most recent first
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(updated));
-      return updated;
+    setRuns(prev => [run, ...prev]); // Most recent first
+    // Local copy first, so a run survives the server being unreachable (uploaded on the next sync)
+    writeCachedRuns([run, ...readCachedRuns()]);
+    updatePendingIds(ids => ids.add(run.id));
+    saveRun(run).then(() => updatePendingIds(ids => ids.delete(run.id)), err => {
+      console.warn('[Telemetry] Failed to save run to server:', err);
+      setSyncStatus('offline');
     });
   }, []);
 
+  const removeRun = useCallback((id: string) => {
+    const run = runs.find(r => r.id === id);
+    setRuns(prev => prev.filter(r => r.id !== id));
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(readCachedRuns().filter(r => r.id !== id)));
+    updatePendingIds(ids => ids.delete(id));
+    serverLoad = null; // Cached server history still holds the run
+    deleteRun(id).catch(err => console.warn('[Telemetry] Failed to delete run on server:', err));
+    // Replay runs of one file under several profiles share their audio
+    if (run?.audioId && !runs.some(r => r.id !== id && r.audioId === run.audioId)) {
+      deleteRecording(run.audioId).catch(err => console.warn('[Telemetry] Failed to delete run audio:', err));
+    }
+  }, [runs]);
+
+  // Clears this browser's copy only; the shared history on the server is kept
   const clearTelemetry = useCallback(() => {
     setRuns([]);
     localStorage.removeItem(STORAGE_KEY);
+    localStorage.removeItem(PENDING_KEY);
+    serverLoad = null;
+    // Run audio is only reachable through the runs, so it goes with them
+    clearRecordings().catch(err => console.warn('[Telemetry] Failed to clear run audio:', err));
   }, []);
 
   const getRunById = useCallback((id: string): TestRun | undefined => {
@@ -89,7 +206,9 @@ export function useTelemetry(): UseTelemetryReturn {
   return {
     runs,
     telemetry,
+    syncStatus,
     addRun,
+    removeRun,
     clearTelemetry,
     getRunById,
     exportRuns
@@ -0,0 +1,229 @@
+import { useState, useCallback, useEffect } from 'react';
+import { useQuestionBank } from '../hooks/useQuestionBank';
+import { useProfile } from '../hooks/useProfile';
+import { useTelemetry } from '../hooks/useTelemetry';
+import { useBatchReplay, MANIFEST_FILE_NAME } from '../hooks/useBatchReplay';
+import type { BatchResult } from '../hooks/useBatchReplay';
+import type { TestRun } from '../types';
+
+function Batch() {
+  const { questions, questionBank } = useQuestionBank();
+  const { profiles, activeProfileId } = useProfile();
+  const { addRun } = useTelemetry();
+  const [selectedProfileIds, setSelectedProfileIds] = useState<string[]>([]);
+
+  // Start with the active profile selected once profiles have loaded
+  useEffect(() => {
+    if (activeProfileId) {
+      setSelectedProfileIds(prev => prev.length > 0 ? prev : [activeProfileId]);
+    }
+  }, [activeProfileId]);
+
+  const handleRunComplete = useCallback((run: TestRun) => {
+    addRun(run);
+  }, [addRun]);
+
+  const {
+    items,
+    isRunning,
+    progress,
+    addFiles,
+    setQuestionId,
+    runBatch,
+    cancel,
+    clear
+  } = useBatchReplay(questions, handleRunComplete, questionBank?.meta.vocabulary);
+
+  const selectedProfiles = profiles.filter(p => selectedProfileIds.includes(p.id));
+  const unmappedCount = items.filter(item => item.questionId === null).length;
+
+  const handleFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files) {
+      await addFiles(Array.from(e.target.files));
+    }
+    e.target.value = '';
+  };
+
+  const toggleProfile = (profileId: string) => {
+    setSelectedProfileIds(prev => prev.includes(profileId)
+      ? prev.filter(id => id !== profileId)
+      : [...prev, profileId]
+    );
+  };
+
+  return (
+    <div className="flex flex-col gap-lg">
+      {/* Files */}
+      <div className="paper-card">
+        <div className="flex justify-between items-center" style={{ marginBottom: 'var(--space-md)' }}>
+          <h2>Batch Replay</h2>
+          <div className="flex gap-sm">
+            <label htmlFor="batch-folder" className="btn btn-secondary" style={{ cursor: 'pointer' }}>
+              Add Folder
+              <input
+                id="batch-folder"
+                name="batch-folder"
+                type="file"
+                multiple
+                onChange={handleFiles}
+                disabled={isRunning}
+                style={{ display: 'none' }}
+                {...{ webkitdirectory: '' }}
+              />
+            </label>
+            <label htmlFor="batch-files" className="btn btn-secondary" style={{ cursor: 'pointer' }}>
+              Add Files
+              <input
+                id="batch-files"
+                name="batch-files"
+                type="file"
+                multiple
+                accept=".wav,.pcm,.raw,.mp3,.m4a,.ogg,.webm,.json"
+                onChange={handleFiles}
+                disabled={isRunning}
+                style={{ display: 'none' }}
+              />
+            </label>
+            <button className="btn btn-ghost" onClick={clear} disabled={isRunning || items.length === 0}>
+              Clear
+            </button>
+          </div>
+        </div>
+
+        <p className="text-small text-muted" style={{ marginBottom: 'var(--space-md)' }}>
+          Score recorded answers through the same transcription and scoring path as a live test.
+          Files are mapped to questions by name (<span className="mono">q1.wav</span>, <span className="mono">q1-take2.wav</span>)
+          or by a <span className="mono">{MANIFEST_FILE_NAME}</span> in the folder
+          (<span className="mono">{'{ "file.wav": "q1" }'}</span>). Raw <span className="mono">.pcm</span> files
+          must be PCM16, 24kHz, mono.
+        </p>
+
+        {items.length === 0 ? (
+          <p className="text-muted">No recordings added yet.</p>
+        ) : (
+          <div style={{ overflowX: 'auto' }}>
+            <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+              <thead>
+                <tr style={{ background: 'var(--surface-paper-2)' }}>
+                  <th className="mono text-small" style={{ padding: 'var(--space-sm)', textAlign: 'left', color: 'var(--accent-yellow)' }}>File</th>
+                  <th className="mono text-small" style={{ padding: 'var(--space-sm)', textAlign: 'left', color: 'var(--accent-yellow)' }}>Question</th>
+                  {selectedProfiles.map(profile => (
+                    <th
+                      key={profile.id}
+                      className="mono text-small"
+                      style={{ padding: 'var(--space-sm)', textAlign: 'center', color: 'var(--accent-yellow)' }}
+                    >
+                      {profile.name}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {items.map(item => (
+                  <tr key={item.id} style={{ borderTop: '1px solid var(--stroke)' }}>
+                    <td className="mono text-small" style={{ padding: 'var(--space-sm)' }}>
+                      {item.file.name}
+                    </td>
+                    <td style={{ padding: 'var(--space-sm)' }}>
+                      <select
+                        className="input select"
+                        aria-label={`Question for ${item.file.name}`}
+                        value={item.questionId ?? ''}
+                        onChange={(e) => setQuestionId(item.id, e.target.value || null)}
+                        disabled={isRunning}
+                      >
+                        <option value="">(unmapped)</option>
+                        {questions.map(q => (
+                          <option key={q.id} value={q.id}>{q.id}</option>
+                        ))}
+                      </select>
+                    </td>
+                    {selectedProfiles.map(profile => (
+                      <td key={profile.id} style={{ padding: 'var(--space-sm)', textAlign: 'center' }}>
+                        <ResultCell result={item.results[profile.id]} />
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {/* Profiles and run */}
+      <div className="paper-card">
+        <h4 style={{ marginBottom: 'var(--space-md)' }}>Profiles</h4>
+        <div className="flex gap-md" style={{ flexWrap: 'wrap', marginBottom: 'var(--space-md)' }}>
+          {profiles.map(profile => (
+            <label key={profile.id} className="flex items-center gap-sm text-small">
+              <input
+                type="checkbox"
+                checked={selectedProfileIds.includes(profile.id)}
+                onChange={() => toggleProfile(profile.id)}
+                disabled={isRunning}
+              />
+              {profile.name}
+            </label>
+          ))}
+        </div>
+
+        <div className="flex justify-between items-center">
+          <span className="mono text-small text-muted">
+            {isRunning
+              ? `Running ${progress.done}/${progress.total}...`
+              : progress.total > 0
+                ? `Completed ${progress.done}/${progress.total}`
+                : `${items.length - unmappedCount} of ${items.length} files mapped`}
+          </span>
+          {isRunning ? (
+            <button className="btn btn-danger" onClick={cancel}>
+              Cancel
+            </button>
+          ) : (
+            <button
+              className="btn btn-primary"
+              onClick={() => runBatch(selectedProfiles)}
+              disabled={selectedProfiles.length === 0 || items.length === unmappedCount}
+            >
+              Run Batch
+            </button>
+          )}
+        </div>
+
+        <p className="text-small text-muted" style={{ marginTop: 'var(--space-sm)' }}>
+          Each file is transcribed and scored once per selected profile. Runs are saved to Logs and Telemetry.
+        </p>
+      </div>
+    </div>
+  );
+}
+
+function ResultCell({ result }: { result?: BatchResult }) {
+  if (!result) {
+    return <span className="mono text-small text-muted">-</span>;
+  }
+  if (result.status === 'running') {
+    return <span className="mono text-small" style={{ color: 'var(--accent-yellow)' }}>...</span>;
+  }
+  if (result.status === 'error' || !result.run) {
+    return (
+      <span className="mono text-small" style={{ color: 'var(--accent-danger)' }} title={result.error}>
+        error
+      </span>
+    );
+  }
+
+  const { score } = result.run;
+  return (
+    <span
+      className="mono text-small"
+      style={{ fontWeight: 'bold', color: score.passed ? 'var(--accent-success)' : 'var(--accent-danger)' }}
+      title={result.run.transcript.raw}
+    >
+      {score.overallScore} {score.passed ? 'PASS' : 'FAIL'}
+    </span>
+  );
+}
+
+export default Batch;
@@ -0,0 +1,451 @@
+import { useState, useMemo, useEffect } from 'react';
+import { useQuestionBank } from '../hooks/useQuestionBank';
+import { useProfile } from '../hooks/useProfile';
+import { useGoldenSet } from '../hooks/useGoldenSet';
+import { diffGoldenRuns } from '../scoring/goldenSet';
+import { formatPromptRef } from '../utils/promptVersions';
+import type { GoldenItemResult, GoldenRun, ScoreSection } from '../types';
+
+const thStyle = { padding: 'var(--space-sm)', color: 'var(--accent-yellow)' } as const;
+const tdStyle = { padding: 'var(--space-sm)' } as const;
+
+const SECTIONS: Array<{ section: ScoreSection; field: 'accuracyScore' | 'fluencyScore' | 'structureScore' | 'overallScore'; label: string }> = [
+  { section: 'accuracy', field: 'accuracyScore', label: 'Accuracy' },
+  { section: 'fluency', field: 'fluencyScore', label: 'Fluency' },
+  { section: 'structure', field: 'structureScore', label: 'Structure' },
+  { section: 'overall', field: 'overallScore', label: 'Overall' }
+];
+
+// Baseline selection: '' follows the run before the selected one
+const NO_BASELINE = 'none';
+
+const formatSigned = (value: number) => `${value > 0 ? '+' : ''}${value}`;
+
+const formatRunPrompt = (run: GoldenRun) =>
+  formatPromptRef({ version: run.promptVersion ?? null, hash: run.promptHash });
+
+const describeRun = (run: GoldenRun) =>
+  `${new Date(run.timestamp).toLocaleString()} · ${run.profileName} · ${formatRunPrompt(run)}`;
+
+function Golden() {
+  const { questions } = useQuestionBank();
+  const { profiles, activeProfileId } = useProfile();
+  const {
+    goldenSet,
+    error,
+    runs,
+    results,
+    isRunning,
+    progress,
+    loadFromJSON,
+    runGoldenSet,
+    cancel,
+    deleteRun,
+    clearRuns
+  } = useGoldenSet(questions);
+
+  const [profileId, setProfileId] = useState('');
+  const [selectedRunId, setSelectedRunId] = useState('');
+  const [baselineRunId, setBaselineRunId] = useState('');
+  const [minDelta, setMinDelta] = useState(5);
+
+  // Start with the active profile once profiles have loaded
+  useEffect(() => {
+    if (activeProfileId) {
+      setProfileId(prev => prev || activeProfileId);
+    }
+  }, [activeProfileId]);
+
+  // Newest run vs. the one before it until the user picks others
+  const selectedRun = runs.find(run => run.id === selectedRunId) ?? runs[0] ?? null;
+  const baselineRun = baselineRunId === NO_BASELINE
+    ? null
+    : runs.find(run => run.id === baselineRunId)
+      ?? runs.find(run => selectedRun && run.id !== selectedRun.id && run.timestamp < selectedRun.timestamp)
+      ?? null;
+
+  const changes = useMemo(
+    () => selectedRun && baselineRun ? diffGoldenRuns(baselineRun, selectedRun, minDelta) : [],
+    [selectedRun, baselineRun, minDelta]
+  );
+
+  // Live results while running, otherwise the selected run's
+  const shownResults: GoldenItemResult[] = isRunning ? results : selectedRun?.results ?? [];
+  const resultsById = new Map(shownResults.map(result => [result.itemId, result]));
+  const baselineById = new Map((baselineRun?.results ?? []).map(result => [result.itemId, result]));
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      loadFromJSON(await file.text());
+    }
+    e.target.value = '';
+  };
+
+  const handleRun = async () => {
+    const profile = profiles.find(p => p.id === profileId);
+    if (!profile) return;
+    const run = await runGoldenSet(profile);
+    if (run) {
+      setSelectedRunId(run.id);
+      setBaselineRunId('');
+    }
+  };
+
+  const handleClearRuns = () => {
+    if (!window.confirm(`Delete all ${runs.length} golden-set runs?`)) return;
+    clearRuns();
+    setSelectedRunId('');
+    setBaselineRunId('');
+  };
+
+  return (
+    <div className="flex flex-col gap-lg">
+      {/* Set and run */}
+      <div className="paper-card">
+        <div className="flex justify-between items-center" style={{ marginBottom: 'var(--space-md)' }}>
+          <h2>Golden Set</h2>
+          <label htmlFor="golden-file" className="btn btn-secondary" style={{ cursor: 'pointer' }}>
+            Load Golden Set
+            <input
+              id="golden-file"
+              name="golden-file"
+              type="file"
+              accept=".json"
+              onChange={handleFile}
+              disabled={isRunning}
+              style={{ display: 'none' }}
+            />
+          </label>
+        </div>
+
+        <p className="text-small text-muted" style={{ marginBottom: 'var(--space-md)' }}>
+          Transcripts with human-assigned scores and pass/fail labels, graded through the same evaluator
+          path as a live test. Run it before and after a prompt edit to see whether grading moved towards
+          or away from the labels. Items reference questions in the loaded bank
+          (<span className="mono">{'{ "id", "questionId", "transcript", "durationMs", "expected": { "passed", "overallScore", ... } }'}</span>).
+        </p>
+
+        {error && (
+          <p className="text-small" style={{ color: 'var(--accent-danger)', marginBottom: 'var(--space-md)' }}>
+            {error}
+          </p>
+        )}
+
+        <div className="flex justify-between items-center gap-md">
+          <div className="flex items-center gap-md">
+            <span className="mono text-small">
+              {goldenSet ? `${goldenSet.meta?.title || 'Untitled golden set'} · ${goldenSet.items.length} items` : 'No golden set loaded'}
+            </span>
+            <select
+              className="input select"
+              aria-label="Profile"
+              value={profileId}
+              onChange={(e) => setProfileId(e.target.value)}
+              disabled={isRunning}
+            >
+              {profiles.map(profile => (
+                <option key={profile.id} value={profile.id}>{profile.name}</option>
+              ))}
+            </select>
+          </div>
+          <div className="flex items-center gap-md">
+            {progress.total > 0 && (
+              <span className="mono text-small text-muted">
+                {isRunning ? `Running ${progress.done}/${progress.total}...` : `Completed ${progress.done}/${progress.total}`}
+              </span>
+            )}
+            {isRunning ? (
+              <button className="btn btn-danger" onClick={cancel}>
+                Cancel
+              </button>
+            ) : (
+              <button className="btn btn-primary" onClick={handleRun} disabled={!goldenSet || !profileId}>
+                Run Golden Set
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {/* Summary */}
+      {selectedRun && !isRunning && (
+        <div className="paper-card">
+          <div className="flex justify-between items-center gap-md" style={{ marginBottom: 'var(--space-md)' }}>
+            <h4>Summary</h4>
+            <div className="flex items-center gap-sm">
+              <select
+                className="input select"
+                aria-label="Run"
+                value={selectedRun.id}
+                onChange={(e) => { setSelectedRunId(e.target.value); setBaselineRunId(''); }}
+              >
+                {runs.map(run => (
+                  <option key={run.id} value={run.id}>{describeRun(run)}</option>
+                ))}
+              </select>
+              <span className="mono text-small text-muted">vs</span>
+              <select
+                className="input select"
+                aria-label="Baseline run"
+                value={baselineRun?.id ?? NO_BASELINE}
+                onChange={(e) => setBaselineRunId(e.target.value)}
+              >
+                <option value={NO_BASELINE}>(no baseline)</option>
+                {runs.filter(run => run.id !== selectedRun.id).map(run => (
+                  <option key={run.id} value={run.id}>{describeRun(run)}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-md">
+            <div>
+              <p className="label">Mean Absolute Error</p>
+              <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+                <thead>
+                  <tr style={{ background: 'var(--surface-paper-2)' }}>
+                    <th className="mono text-small" style={{ ...thStyle, textAlign: 'left' }}>Section</th>
+                    <th className="mono text-small" style={{ ...thStyle, textAlign: 'right' }}>MAE</th>
+                    {baselineRun && <th className="mono text-small" style={{ ...thStyle, textAlign: 'right' }}>Baseline</th>}
+                  </tr>
+                </thead>
+                <tbody>
+                  {SECTIONS.map(({ section, label }) => {
+                    const mae = selectedRun.summary.mae[section];
+                    const baselineMae = baselineRun?.summary.mae[section] ?? null;
+                    const change = mae !== null && baselineMae !== null ? Math.round((mae - baselineMae) * 10) / 10 : null;
+                    return (
+                      <tr key={section} style={{ borderTop: '1px solid var(--stroke)' }}>
+                        <td className="mono text-small" style={tdStyle}>{label}</td>
+                        <td className="mono text-small" style={{ ...tdStyle, textAlign: 'right' }}>
+                          {mae ?? '-'}
+                          {change !== null && change !== 0 && (
+                            <span style={{ color: change < 0 ? 'var(--accent-success)' : 'var(--accent-danger)', marginLeft: '4px' }}>
+                              ({formatSigned(change)})
+                            </span>
+                          )}
+                        </td>
+                        {baselineRun && (
+                          <td className="mono text-small text-muted" style={{ ...tdStyle, textAlign: 'right' }}>{baselineMae ?? '-'}</td>
+                        )}
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+
+            <div>
+              <p className="label">Pass/Fail vs. Labels</p>
+              <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+                <thead>
+                  <tr style={{ background: 'var(--surface-paper-2)' }}>
+                    <th className="mono text-small" style={{ ...thStyle, textAlign: 'left' }}>Label \ Graded</th>
+                    <th className="mono text-small" style={{ ...thStyle, textAlign: 'right' }}>Pass</th>
+                    <th className="mono text-small" style={{ ...thStyle, textAlign: 'right' }}>Fail</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  <tr style={{ borderTop: '1px solid var(--stroke)' }}>
+                    <td className="mono text-small" style={tdStyle}>Pass</td>
+                    <td className="mono text-small" style={{ ...tdStyle, textAlign: 'right', color: 'var(--accent-success)' }}>{selectedRun.summary.confusion.truePass}</td>
+                    <td className="mono text-small" style={{ ...tdStyle, textAlign: 'right', color: 'var(--accent-danger)' }}>{selectedRun.summary.confusion.falseFail}</td>
+                  </tr>
+                  <tr style={{ borderTop: '1px solid var(--stroke)' }}>
+                    <td className="mono text-small" style={tdStyle}>Fail</td>
+                    <td className="mono text-small" style={{ ...tdStyle, textAlign: 'right', color: 'var(--accent-danger)' }}>{selectedRun.summary.confusion.falsePass}</td>
+                    <td className="mono text-small" style={{ ...tdStyle, textAlign: 'right', color: 'var(--accent-success)' }}>{selectedRun.summary.confusion.trueFail}</td>
+                  </tr>
+                </tbody>
+              </table>
+              <p className="mono text-small text-muted" style={{ marginTop: 'var(--space-sm)' }}>
+                Agreement {(selectedRun.summary.agreement * 100).toFixed(0)}%
+                {baselineRun && ` (baseline ${(baselineRun.summary.agreement * 100).toFixed(0)}%)`}
+                {' '}· {selectedRun.summary.scored} scored
+                {selectedRun.summary.errors > 0 && `, ${selectedRun.summary.errors} errors`}
+              </p>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Items */}
+      {goldenSet && (
+        <div className="paper-card">
+          <h4 style={{ marginBottom: 'var(--space-md)' }}>Items</h4>
+          <div style={{ overflowX: 'auto' }}>
+            <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+              <thead>
+                <tr style={{ background: 'var(--surface-paper-2)' }}>
+                  <th className="mono text-small" style={{ ...thStyle, textAlign: 'left' }}>Item</th>
+                  <th className="mono text-small" style={{ ...thStyle, textAlign: 'left' }}>Transcript</th>
+                  <th className="mono text-small" style={{ ...thStyle, textAlign: 'center' }}>Label</th>
+                  {SECTIONS.map(({ section, label }) => (
+                    <th key={section} className="mono text-small" style={{ ...thStyle, textAlign: 'right' }}>{label}</th>
+                  ))}
+                  <th className="mono text-small" style={{ ...thStyle, textAlign: 'center' }}>Graded</th>
+                </tr>
+              </thead>
+              <tbody>
+                {goldenSet.items.map(item => {
+                  const result = resultsById.get(item.id);
+                  const before = baselineById.get(item.id)?.scores;
+                  return (
+                    <tr key={item.id} style={{ borderTop: '1px solid var(--stroke)' }}>
+                      <td className="mono text-small" style={tdStyle} title={item.notes}>
+                        {item.id} <span className="text-muted">({item.questionId})</span>
+                      </td>
+                      <td className="text-small" style={{ ...tdStyle, maxWidth: '320px' }}>{item.transcript}</td>
+                      <td className="mono text-small" style={{ ...tdStyle, textAlign: 'center', color: item.expected.passed ? 'var(--accent-success)' : 'var(--accent-danger)' }}>
+                        {item.expected.passed ? 'PASS' : 'FAIL'}
+                      </td>
+                      {SECTIONS.map(({ section, field }) => {
+                        const expected = item.expected[field];
+                        const actual = result?.scores?.[field];
+                        const drift = before && actual !== undefined ? actual - before[field] : 0;
+                        return (
+                          <td key={section} className="mono text-small" style={{ ...tdStyle, textAlign: 'right' }}>
+                            {actual ?? '-'}
+                            {expected !== undefined && <span className="text-muted"> / {expected}</span>}
+                            {!isRunning && drift !== 0 && (
+                              <span style={{ color: 'var(--accent-yellow)', marginLeft: '4px' }}>({formatSigned(drift)})</span>
+                            )}
+                          </td>
+                        );
+                      })}
+                      <td style={{ ...tdStyle, textAlign: 'center' }}>
+                        {result?.error ? (
+                          <span className="mono text-small" style={{ color: 'var(--accent-danger)' }} title={result.error}>error</span>
+                        ) : result?.scores ? (
+                          <span
+                            className="mono text-small"
+                            style={{
+                              fontWeight: 'bold',
+                              color: result.scores.passed === item.expected.passed ? 'var(--accent-success)' : 'var(--accent-danger)'
+                            }}
+                          >
+                            {result.scores.passed ? 'PASS' : 'FAIL'}
+                          </span>
+                        ) : (
+                          <span className="mono text-small text-muted">-</span>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+          <p className="text-small text-muted" style={{ marginTop: 'var(--space-sm)' }}>
+            Scores are graded / labelled; the bracketed number is the change since the baseline run.
+            Graded pass/fail is green when it matches the label.
+          </p>
+        </div>
+      )}
+
+      {/* Changed items */}
+      {selectedRun && baselineRun && !isRunning && (
+        <div className="paper-card">
+          <div className="flex justify-between items-center" style={{ marginBottom: 'var(--space-md)' }}>
+            <h4>Changed Since Baseline ({changes.length})</h4>
+            <label htmlFor="golden-min-delta" className="flex items-center gap-sm text-small">
+              Min change
+              <input
+                id="golden-min-delta"
+                name="golden-min-delta"
+                type="number"
+                min="1"
+                max="100"
+                className="input"
+                style={{ width: '80px' }}
+                value={minDelta}
+                onChange={(e) => setMinDelta(Math.max(1, parseInt(e.target.value, 10) || 1))}
+              />
+            </label>
+          </div>
+          {changes.length === 0 ? (
+            <p className="text-muted">No item moved by {minDelta} or more points, and no pass/fail flipped.</p>
+          ) : (
+            <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+              <thead>
+                <tr style={{ background: 'var(--surface-paper-2)' }}>
+                  <th className="mono text-small" style={{ ...thStyle, textAlign: 'left' }}>Item</th>
+                  {SECTIONS.map(({ section, label }) => (
+                    <th key={section} className="mono text-small" style={{ ...thStyle, textAlign: 'right' }}>{label}</th>
+                  ))}
+                  <th className="mono text-small" style={{ ...thStyle, textAlign: 'center' }}>Pass/Fail</th>
+                </tr>
+              </thead>
+              <tbody>
+                {changes.map(change => (
+                  <tr key={change.itemId} style={{ borderTop: '1px solid var(--stroke)' }}>
+                    <td className="mono text-small" style={tdStyle}>{change.itemId}</td>
+                    {SECTIONS.map(({ section }) => (
+                      <td key={section} className="mono text-small" style={{ ...tdStyle, textAlign: 'right' }}>
+                        {formatSigned(change.deltas[section])}
+                      </td>
+                    ))}
+                    <td className="mono text-small" style={{ ...tdStyle, textAlign: 'center', color: change.passFlipped ? 'var(--accent-danger)' : undefined }}>
+                      {change.passFlipped
+                        ? (resultsById.get(change.itemId)?.scores?.passed ? 'FAIL → PASS' : 'PASS → FAIL')
+                        : '-'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      )}
+
+      {/* History */}
+      <div className="paper-card">
+        <div className="flex justify-between items-center" style={{ marginBottom: 'var(--space-md)' }}>
+          <h4>Run History</h4>
+          <button className="btn btn-ghost" onClick={handleClearRuns} disabled={isRunning || runs.length === 0}>
+            Clear History
+          </button>
+        </div>
+        {runs.length === 0 ? (
+          <p className="text-muted">No golden-set runs yet.</p>
+        ) : (
+          <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+            <thead>
+              <tr style={{ background: 'var(--surface-paper-2)' }}>
+                <th className="mono text-small" style={{ ...thStyle, textAlign: 'left' }}>Time</th>
+                <th className="mono text-small" style={{ ...thStyle, textAlign: 'left' }}>Set</th>
+                <th className="mono text-small" style={{ ...thStyle, textAlign: 'left' }}>Profile</th>
+                <th className="mono text-small" style={{ ...thStyle, textAlign: 'left' }}>Model</th>
+                <th className="mono text-small" style={{ ...thStyle, textAlign: 'left' }}>Prompts</th>
+                <th className="mono text-small" style={{ ...thStyle, textAlign: 'right' }}>Overall MAE</th>
+                <th className="mono text-small" style={{ ...thStyle, textAlign: 'right' }}>Agreement</th>
+                <th className="mono text-small" style={thStyle}></th>
+              </tr>
+            </thead>
+            <tbody>
+              {runs.map(run => (
+                <tr key={run.id} style={{ borderTop: '1px solid var(--stroke)' }}>
+                  <td className="mono text-small" style={tdStyle}>{new Date(run.timestamp).toLocaleString()}</td>
+                  <td className="text-small" style={tdStyle}>{run.setTitle}</td>
+                  <td className="text-small" style={tdStyle}>{run.profileName}</td>
+                  <td className="mono text-small" style={tdStyle}>{run.evaluatorModel}</td>
+                  <td className="mono text-small" style={tdStyle}>{formatRunPrompt(run)}</td>
+                  <td className="mono text-small" style={{ ...tdStyle, textAlign: 'right' }}>{run.summary.mae.overall ?? '-'}</td>
+                  <td className="mono text-small" style={{ ...tdStyle, textAlign: 'right' }}>{(run.summary.agreement * 100).toFixed(0)}%</td>
+                  <td style={{ ...tdStyle, textAlign: 'right' }}>
+                    <button className="btn btn-ghost" onClick={() => deleteRun(run.id)} disabled={isRunning}>
+                      Delete
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default Golden;
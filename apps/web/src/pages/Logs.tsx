@@ -1,9 +1,18 @@
 import { useState, useMemo } from 'react';
 import { useTelemetry } from '../hooks/useTelemetry';
-import type { TestRun } from '../types';
+import RunAudioPlayer from '../components/RunAudioPlayer';
+import { formatPromptRef } from '../utils/promptVersions';
+import type { TestRun, RunSyncStatus } from '../types';
+
+const SYNC_STATUS_LABELS: Record<RunSyncStatus, string> = {
+  local: 'Local history',
+  syncing: 'Syncing...',
+  synced: 'Shared history',
+  offline: 'Server unreachable - local only'
+};
 
 function Logs() {
-  const { runs, clearTelemetry } = useTelemetry();
+  const { runs, syncStatus, removeRun, clearTelemetry } = useTelemetry();
   const [filter, setFilter] = useState('');
   const [sortBy, setSortBy] = useState<'timestamp' | 'score' | 'latency'>('timestamp');
   const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('desc');
@@ -64,7 +73,7 @@ function Logs() {
     const headers = [
       'ID', 'Question ID', 'Timestamp', 'Status',
       'Accuracy', 'Fluency', 'Structure', 'Overall',
-      'Passed', 'Latency (ms)', 'Cost'
+      'Passed', 'Latency (ms)', 'Cost', 'Prompt'
     ];
     const rows = runs.map(run => [
       run.id,
@@ -77,7 +86,8 @@ function Logs() {
       run.score.overallScore,
       run.score.passed ? 'Yes' : 'No',
       run.telemetry.totalLatencyMs,
-      run.telemetry.estimatedCost.toFixed(4)
+      run.telemetry.estimatedCost.toFixed(4),
+      run.prompt ? formatPromptRef(run.prompt) : ''
     ]);
 
     const csv = [
@@ -94,6 +104,22 @@ function Logs() {
     URL.revokeObjectURL(url);
   };
 
+  const handleClearAll = () => {
+    const message = syncStatus === 'synced'
+      ? 'Clear the runs and recordings cached in this browser? The shared history on the server is kept.'
+      : 'Delete all runs stored in this browser?';
+    if (confirm(message)) {
+      clearTelemetry();
+    }
+  };
+
+  const handleDeleteRun = (run: TestRun) => {
+    if (confirm(`Delete run for ${run.questionId} from ${formatTimestamp(run.timestamp)}?`)) {
+      removeRun(run.id);
+      setSelectedRun(null);
+    }
+  };
+
   const formatTimestamp = (ts: string) => {
     return new Date(ts).toLocaleString();
   };
@@ -132,14 +158,21 @@ function Logs() {
             </button>
           </div>
 
-          <div className="flex gap-sm">
+          <div className="flex gap-sm items-center">
+            <span
+              className="mono text-small"
+              style={{ color: syncStatus === 'offline' ? 'var(--accent-danger)' : 'var(--text-muted)' }}
+              title="Runs are kept in this browser and in the server's shared history"
+            >
+              {SYNC_STATUS_LABELS[syncStatus]}
+            </span>
             <button className="btn btn-secondary" onClick={handleExportJSON}>
               Export JSON
             </button>
             <button className="btn btn-secondary" onClick={handleExportCSV}>
               Export CSV
             </button>
-            <button className="btn btn-danger" onClick={clearTelemetry}>
+            <button className="btn btn-danger" onClick={handleClearAll}>
               Clear All
             </button>
           </div>
@@ -216,8 +249,13 @@ function Logs() {
                     <td className="mono text-small" style={{ padding: 'var(--space-sm)', textAlign: 'right' }}>
                       {run.telemetry.totalLatencyMs}ms
                     </td>
-                    <td className="mono text-small" style={{ padding: 'var(--space-sm)', textAlign: 'right' }}>
+                    <td
+                      className="mono text-small"
+                      style={{ padding: 'var(--space-sm)', textAlign: 'right' }}
+                      title={run.telemetry.cost?.fallbackPricing && `Estimated: no price entry for ${run.telemetry.cost.fallbackPricing.join(', ')}`}
+                    >
                       ${run.telemetry.estimatedCost.toFixed(4)}
+                      {run.telemetry.cost?.fallbackPricing && ' *'}
                     </td>
                     <td style={{ padding: 'var(--space-sm)', textAlign: 'center' }}>
                       <button className="btn btn-ghost text-small">
@@ -257,9 +295,14 @@ function Logs() {
           >
             <div className="flex justify-between items-center" style={{ marginBottom: 'var(--space-md)' }}>
               <h4>Run Details</h4>
-              <button className="btn btn-ghost" onClick={() => setSelectedRun(null)}>
-                Close
-              </button>
+              <div className="flex gap-sm">
+                <button className="btn btn-danger" onClick={() => handleDeleteRun(selectedRun)}>
+                  Delete
+                </button>
+                <button className="btn btn-ghost" onClick={() => setSelectedRun(null)}>
+                  Close
+                </button>
+              </div>
             </div>
 
             <div className="grid grid-cols-2 gap-md" style={{ marginBottom: 'var(--space-md)' }}>
@@ -271,8 +314,71 @@ function Logs() {
                 <p className="label">Timestamp</p>
                 <p className="mono text-small">{formatTimestamp(selectedRun.timestamp)}</p>
               </div>
+              <div>
+                <p className="label">Profile</p>
+                <p className="mono text-small">{selectedRun.profileId}</p>
+              </div>
+              <div>
+                <p className="label">Source</p>
+                <p className="mono text-small">
+                  {selectedRun.source === 'replay' ? `Replay: ${selectedRun.audioFileName ?? 'recording'}` : 'Live'}
+                </p>
+              </div>
+              <div>
+                <p className="label">Evaluator Prompt</p>
+                <p className="mono text-small">{selectedRun.prompt ? formatPromptRef(selectedRun.prompt) : '(not recorded)'}</p>
+              </div>
+              {selectedRun.telemetry.evaluator && (
+                <div>
+                  <p className="label">Evaluator</p>
+                  <p className="mono text-small">
+                    {selectedRun.telemetry.evaluator.provider} / {selectedRun.telemetry.evaluator.model}
+                    {selectedRun.telemetry.evaluator.usedFallback && ' (fallback)'}
+                  </p>
+                </div>
+              )}
+              {selectedRun.telemetry.transcriptionProvider && (
+                <div>
+                  <p className="label">Transcription</p>
+                  <p className="mono text-small">
+                    {selectedRun.telemetry.transcriptionProvider}
+                    {selectedRun.telemetry.cost && ` / ${selectedRun.telemetry.cost.transcriptionModel}`}
+                  </p>
+                </div>
+              )}
+              <div>
+                <p className="label">Cost</p>
+                <p className="mono text-small">
+                  ${selectedRun.telemetry.estimatedCost.toFixed(4)}
+                  {selectedRun.telemetry.cost?.fallbackPricing &&
+                    ` (estimated: no price entry for ${selectedRun.telemetry.cost.fallbackPricing.join(', ')})`}
+                </p>
+              </div>
             </div>
 
+            {selectedRun.prompt?.scoringPromptTemplate !== undefined && (
+              <details style={{ marginBottom: 'var(--space-md)' }}>
+                <summary className="label" style={{ cursor: 'pointer' }}>Unsaved Prompts Used</summary>
+                <div className="paper-card-2">
+                  <p className="mono text-small" style={{ whiteSpace: 'pre-wrap', marginBottom: 'var(--space-sm)' }}>
+                    {selectedRun.prompt.scoringPromptTemplate}
+                  </p>
+                  <p className="mono text-small" style={{ whiteSpace: 'pre-wrap' }}>
+                    {selectedRun.prompt.explanationPromptTemplate}
+                  </p>
+                </div>
+              </details>
+            )}
+
+            {selectedRun.audioId && (
+              <div style={{ marginBottom: 'var(--space-md)' }}>
+                <p className="label">Recorded Audio</p>
+                <div className="paper-card-2">
+                  <RunAudioPlayer audioId={selectedRun.audioId} fileName={`${selectedRun.id}.wav`} />
+                </div>
+              </div>
+            )}
+
             <div style={{ marginBottom: 'var(--space-md)' }}>
               <p className="label">Transcript (Raw)</p>
               <div className="paper-card-2">
@@ -287,6 +393,17 @@ function Logs() {
               </div>
             </div>
 
+            {selectedRun.score.matchedVariant !== undefined && selectedRun.score.matchedVariant >= 0 && (
+              <div style={{ marginBottom: 'var(--space-md)' }}>
+                <p className="label">Matched Variant {selectedRun.score.matchedVariant + 1}</p>
+                <div className="paper-card-2">
+                  <p className="mono text-small">
+                    {selectedRun.expectedAnswer.variants?.[selectedRun.score.matchedVariant] ?? '(not recorded)'}
+                  </p>
+                </div>
+              </div>
+            )}
+
             <div className="grid grid-cols-4 gap-sm" style={{ marginBottom: 'var(--space-md)' }}>
               <div className="paper-card-2 text-center">
                 <h5>{selectedRun.score.accuracyScore}</h5>
@@ -308,6 +425,45 @@ function Logs() {
               </div>
             </div>
 
+            {selectedRun.fluencyMetrics && (
+              <div style={{ marginBottom: 'var(--space-md)' }}>
+                <p className="label">
+                  Fluency ({selectedRun.fluencyMetrics.pauseSource === 'audio' ? 'measured from audio' : 'estimated'})
+                </p>
+                <div className="paper-card-2">
+                  <p className="mono text-small">
+                    {selectedRun.fluencyMetrics.wpm} WPM · {selectedRun.fluencyMetrics.pauseCount} pauses · {selectedRun.fluencyMetrics.longPauseCount} long
+                    · longest {selectedRun.fluencyMetrics.longestPauseMs}ms
+                    {selectedRun.fluencyMetrics.speechOnsetMs !== undefined && ` · onset ${selectedRun.fluencyMetrics.speechOnsetMs}ms`}
+                  </p>
+                  {selectedRun.fluencyMetrics.pauses && selectedRun.fluencyMetrics.pauses.length > 0 && (
+                    <p className="mono text-small text-muted">
+                      {selectedRun.fluencyMetrics.pauses.map(p => `${p.startMs}-${p.endMs}ms`).join(', ')}
+                    </p>
+                  )}
+                </div>
+              </div>
+            )}
+
+            {selectedRun.telemetry.evaluatorValidation && selectedRun.telemetry.evaluatorValidation.errors.length > 0 && (
+              <div style={{ marginBottom: 'var(--space-md)' }}>
+                <p className="label">
+                  Evaluator Output ({selectedRun.score.scoringSource === 'local'
+                    ? `invalid after ${selectedRun.telemetry.evaluatorValidation.attempts} attempts`
+                    : selectedRun.score.sampling
+                      ? `${selectedRun.telemetry.evaluatorValidation.attempts} completions over ${selectedRun.score.sampling.requested} samples`
+                      : `repaired on attempt ${selectedRun.telemetry.evaluatorValidation.attempts}`})
+                </p>
+                <div className="paper-card-2">
+                  {selectedRun.telemetry.evaluatorValidation.errors.map(failure => (
+                    <p key={`${failure.sample ?? 0}-${failure.attempt}`} className="mono text-small text-muted">
+                      {failure.sample !== undefined && `Sample ${failure.sample}, `}Attempt {failure.attempt}: {failure.errors.join('; ')}
+                    </p>
+                  ))}
+                </div>
+              </div>
+            )}
+
             <div>
               <p className="label">Reasons (Why not 100%)</p>
               <div className="paper-card-2">
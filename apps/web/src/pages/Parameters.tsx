@@ -1,6 +1,14 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect } from 'react';
 import { useProfile } from '../hooks/useProfile';
-import type { Profile } from '../types';
+import { api } from '../config';
+import { isFileProvider, DEFAULT_STT_PROVIDER } from '../stt/fileTranscription';
+import type { Profile, ProfileTranscription, SttProviderId, SttProviderInfo } from '../types';
+
+const STT_PROVIDER_LABELS: Record<SttProviderId, string> = {
+  'openai-realtime': 'OpenAI Realtime (streaming)',
+  'openai-file': 'OpenAI transcription API (record then transcribe)',
+  'local-whisper': 'Local Whisper (record then transcribe)'
+};
 
 function Parameters() {
   const {
@@ -15,6 +23,14 @@ function Parameters() {
   } = useProfile();
 
   const [importError, setImportError] = useState<string | null>(null);
+  const [sttProviders, setSttProviders] = useState<SttProviderInfo[]>([]);
+
+  useEffect(() => {
+    fetch(api.sttProviders)
+      .then(response => response.ok ? response.json() : Promise.reject(new Error(`HTTP ${response.status}`)))
+      .then((data: { providers: SttProviderInfo[] }) => setSttProviders(data.providers))
+      .catch(err => console.warn('[Parameters] Could not load transcription providers:', err));
+  }, []);
 
   const handleUpdateProfile = useCallback((updates: Partial<Profile>) => {
     if (!activeProfile) return;
@@ -57,6 +73,25 @@ function Parameters() {
     });
   };
 
+  const handleTranscriptionChange = <K extends keyof ProfileTranscription>(key: K, value: ProfileTranscription[K]) => {
+    if (!activeProfile) return;
+    handleUpdateProfile({
+      transcription: { ...activeProfile.transcription, [key]: value }
+    });
+  };
+
+  // Model names are provider-specific, so switching providers starts from that provider's default
+  const handleSttProviderChange = (value: SttProviderId) => {
+    if (!activeProfile) return;
+    handleUpdateProfile({
+      transcription: {
+        ...activeProfile.transcription,
+        provider: value === DEFAULT_STT_PROVIDER ? undefined : value,
+        model: undefined
+      }
+    });
+  };
+
   const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
@@ -92,6 +127,8 @@ function Parameters() {
     );
   }
 
+  const sttProvider = activeProfile.transcription?.provider ?? DEFAULT_STT_PROVIDER;
+
   return (
     <div className="flex flex-col gap-lg">
       {/* Profile Selector */}
@@ -318,11 +355,132 @@ function Parameters() {
         </div>
       </div>
 
+      {/* Transcription Provider */}
+      <div className="paper-card">
+        <h4 style={{ marginBottom: 'var(--space-md)' }}>Transcription</h4>
+        <p className="text-small text-muted" style={{ marginBottom: 'var(--space-md)' }}>
+          Streaming transcribes while you speak. Record-then-transcribe providers receive the whole
+          recording when you stop, for comparing engines on the same scoring pipeline.
+        </p>
+        <div className="grid grid-cols-2 gap-md">
+          <div>
+            <label htmlFor="stt-provider" className="label">Provider</label>
+            <select
+              id="stt-provider"
+              name="stt-provider"
+              className="input select"
+              value={sttProvider}
+              onChange={(e) => handleSttProviderChange(e.target.value as SttProviderId)}
+            >
+              {(Object.keys(STT_PROVIDER_LABELS) as SttProviderId[]).map(id => {
+                const info = sttProviders.find(p => p.id === id);
+                return (
+                  <option key={id} value={id}>
+                    {STT_PROVIDER_LABELS[id]}{info && !info.configured ? ' (not configured)' : ''}
+                  </option>
+                );
+              })}
+            </select>
+            <p className="text-small text-muted">
+              Credentials and endpoints are configured on the server
+            </p>
+          </div>
+          <div>
+            <label htmlFor="stt-model" className="label">Model</label>
+            {isFileProvider(sttProvider) ? (
+              <input
+                id="stt-model"
+                name="stt-model"
+                type="text"
+                className="input"
+                placeholder={`Server default (${sttProviders.find(p => p.id === sttProvider)?.defaultModel || 'unknown'})`}
+                value={activeProfile.transcription?.model ?? ''}
+                onChange={(e) => handleTranscriptionChange('model', e.target.value || undefined)}
+              />
+            ) : (
+              <select
+                id="stt-model"
+                name="stt-model"
+                className="input select"
+                value={activeProfile.transcription?.model ?? ''}
+                onChange={(e) => handleTranscriptionChange('model', e.target.value || undefined)}
+              >
+                <option value="">Server default (gpt-4o-mini-transcribe)</option>
+                <option value="gpt-4o-mini-transcribe">GPT-4o Mini Transcribe</option>
+                <option value="gpt-4o-transcribe">GPT-4o Transcribe</option>
+                <option value="whisper-1">Whisper</option>
+              </select>
+            )}
+          </div>
+          <div>
+            <label htmlFor="stt-language" className="label">Language</label>
+            <input
+              id="stt-language"
+              name="stt-language"
+              type="text"
+              maxLength={2}
+              className="input"
+              placeholder="Auto-detect"
+              value={activeProfile.transcription?.language ?? 'en'}
+              onChange={(e) => handleTranscriptionChange('language', e.target.value.trim().toLowerCase())}
+            />
+            <p className="text-small text-muted">ISO-639-1 code (en, fr, ...); empty to auto-detect</p>
+          </div>
+          {!isFileProvider(sttProvider) && (
+            <>
+              <div>
+                <label htmlFor="stt-noise-reduction" className="label">Noise Reduction</label>
+                <select
+                  id="stt-noise-reduction"
+                  name="stt-noise-reduction"
+                  className="input select"
+                  value={activeProfile.transcription?.noiseReduction ?? 'near_field'}
+                  onChange={(e) => handleTranscriptionChange('noiseReduction', e.target.value as ProfileTranscription['noiseReduction'])}
+                >
+                  <option value="near_field">Near field (headset, close mic)</option>
+                  <option value="far_field">Far field (speaker, room mic)</option>
+                  <option value="off">Off</option>
+                </select>
+              </div>
+              <div>
+                <label htmlFor="stt-turn-detection" className="label">Turn Detection</label>
+                <select
+                  id="stt-turn-detection"
+                  name="stt-turn-detection"
+                  className="input select"
+                  value={activeProfile.transcription?.turnDetection ?? 'server_vad'}
+                  onChange={(e) => handleTranscriptionChange('turnDetection', e.target.value as ProfileTranscription['turnDetection'])}
+                >
+                  <option value="server_vad">Server VAD (silence-based)</option>
+                  <option value="semantic_vad">Semantic VAD (end of utterance)</option>
+                </select>
+                <p className="text-small text-muted">Semantic VAD ignores the VAD settings below</p>
+              </div>
+            </>
+          )}
+        </div>
+        <div style={{ marginTop: 'var(--space-md)' }}>
+          <label htmlFor="stt-prompt" className="label">Transcription Prompt</label>
+          <textarea
+            id="stt-prompt"
+            name="stt-prompt"
+            className="input textarea input-mono"
+            rows={3}
+            placeholder="Vocabulary and spelling hints, e.g. callsigns and waypoints"
+            value={activeProfile.transcription?.prompt ?? ''}
+            onChange={(e) => handleTranscriptionChange('prompt', e.target.value || undefined)}
+          />
+          <p className="text-small text-muted">
+            The question bank's vocabulary and the current question's terms are appended automatically
+          </p>
+        </div>
+      </div>
+
       {/* Voice Activity Detection (VAD) Settings */}
       <div className="paper-card">
         <h4 style={{ marginBottom: 'var(--space-md)' }}>Voice Activity Detection (VAD)</h4>
         <p className="text-small text-muted" style={{ marginBottom: 'var(--space-md)' }}>
-          Controls how the OpenAI Realtime API detects speech. Changes apply to new recording sessions.
+          Controls how the OpenAI Realtime API detects speech with server VAD (streaming only). Changes apply to new recording sessions.
         </p>
         <div className="grid grid-cols-3 gap-md">
           <div>
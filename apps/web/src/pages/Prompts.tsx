@@ -1,10 +1,51 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect } from 'react';
 import { useProfile } from '../hooks/useProfile';
-import type { Profile } from '../types';
+import { useQuestionBank } from '../hooks/useQuestionBank';
+import PromptDiff from '../components/PromptDiff';
+import { findPromptVersion, createPromptVersion, hashPrompts } from '../utils/promptVersions';
+import { buildScoreRequest } from '../scoring/scoreTranscript';
+import { measureFluencyMetrics } from '../utils/fluencyMetrics';
+import { api } from '../config';
+import type { Profile, PromptVersion, EvaluatorTemplatesResponse, EvaluatorDryRunResponse, EvaluatorProviderId, EvaluatorProviderInfo } from '../types';
+
+// Versions being compared; 'current' is the live (possibly unsaved) text
+interface PromptComparison {
+  from: number;
+  to: number | 'current';
+}
+
+const PROVIDER_LABELS: Record<EvaluatorProviderId, string> = {
+  openai: 'OpenAI',
+  azure: 'Azure OpenAI',
+  anthropic: 'Anthropic',
+  local: 'Local (OpenAI-compatible)'
+};
+
+// Speaking rate assumed for the preview transcript's duration
+const PREVIEW_WPM = 150;
+
+const preStyle = {
+  background: 'var(--surface-ink)',
+  color: 'var(--text-on-dark)',
+  padding: 'var(--space-md)',
+  borderRadius: 'var(--radius-md)',
+  overflow: 'auto',
+  maxHeight: '400px',
+  whiteSpace: 'pre-wrap'
+} as const;
 
 function Prompts() {
   const { activeProfile, activeProfileId, updateProfile } = useProfile();
-  const [previewPayload, setPreviewPayload] = useState<string | null>(null);
+  const { questions } = useQuestionBank();
+  const [dryRun, setDryRun] = useState<EvaluatorDryRunResponse | null>(null);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+  const [pendingDryRun, setPendingDryRun] = useState<'preview' | 'execute' | null>(null);
+  const [previewQuestionId, setPreviewQuestionId] = useState('');
+  const [previewTranscript, setPreviewTranscript] = useState<string | null>(null);
+  const [templates, setTemplates] = useState<EvaluatorTemplatesResponse | null>(null);
+  const [providers, setProviders] = useState<EvaluatorProviderInfo[]>([]);
+  const [versionNote, setVersionNote] = useState('');
+  const [comparison, setComparison] = useState<PromptComparison | null>(null);
 
   const handleUpdateProfile = useCallback((evaluatorUpdates: Partial<Profile['evaluator']>) => {
     if (!activeProfile) return;
@@ -14,6 +55,18 @@ function Prompts() {
     });
   }, [activeProfile, activeProfileId, updateProfile]);
 
+  // Default layouts and the variable list come from the server that renders them
+  useEffect(() => {
+    fetch(api.evaluatorTemplates)
+      .then(response => response.ok ? response.json() : Promise.reject(new Error(`HTTP ${response.status}`)))
+      .then((data: EvaluatorTemplatesResponse) => setTemplates(data))
+      .catch(err => console.warn('[Prompts] Could not load evaluator templates:', err));
+    fetch(api.evaluatorProviders)
+      .then(response => response.ok ? response.json() : Promise.reject(new Error(`HTTP ${response.status}`)))
+      .then((data: { providers: EvaluatorProviderInfo[] }) => setProviders(data.providers))
+      .catch(err => console.warn('[Prompts] Could not load evaluator providers:', err));
+  }, []);
+
   if (!activeProfile) {
     return (
       <div className="paper-card">
@@ -34,27 +87,136 @@ function Prompts() {
     handleUpdateProfile({ model: value });
   };
 
+  // Model names are provider-specific, so switching providers starts from that provider's default
+  const handleProviderChange = (value: EvaluatorProviderId) => {
+    const fallback = activeProfile.evaluator.fallback;
+    handleUpdateProfile({
+      provider: value,
+      model: value === 'openai' ? 'gpt-4o-mini' : '',
+      fallback: fallback?.provider === value ? undefined : fallback
+    });
+  };
+
+  const handleFallbackChange = (value: EvaluatorProviderId | '') => {
+    handleUpdateProfile({ fallback: value ? { provider: value } : undefined });
+  };
+
+  const handleFallbackModelChange = (value: string) => {
+    const fallback = activeProfile.evaluator.fallback;
+    if (!fallback) return;
+    handleUpdateProfile({ fallback: { ...fallback, model: value || undefined } });
+  };
+
   const handleTemperatureChange = (value: number) => {
     handleUpdateProfile({ temperature: value });
   };
 
-  const handlePreview = () => {
-    const payload = {
-      model: activeProfile.evaluator.model,
-      temperature: activeProfile.evaluator.temperature,
-      messages: [
-        {
-          role: 'system',
-          content: `[SCORING PROMPT]\n${activeProfile.evaluator.scoringPromptTemplate}`
-        },
-        {
-          role: 'user',
-          content: `[EXPLANATION PROMPT]\n${activeProfile.evaluator.explanationPromptTemplate}\n\n[Data would be inserted here...]`
-        }
-      ],
-      note: 'API key and actual data redacted for preview'
-    };
-    setPreviewPayload(JSON.stringify(payload, null, 2));
+  const handleMaxAttemptsChange = (value: number) => {
+    handleUpdateProfile({ maxAttempts: Number.isNaN(value) ? undefined : Math.min(5, Math.max(1, value)) });
+  };
+
+  const handleSamplesChange = (value: number) => {
+    handleUpdateProfile({ samples: Number.isNaN(value) ? undefined : Math.min(10, Math.max(1, value)) });
+  };
+
+  // An empty layout is stored as unset so the server default applies
+  const handleSystemLayoutChange = (value: string) => {
+    handleUpdateProfile({ systemPromptTemplate: value || undefined });
+  };
+
+  const handleUserLayoutChange = (value: string) => {
+    handleUpdateProfile({ userPromptTemplate: value || undefined });
+  };
+
+  const handleCustomizeLayouts = () => {
+    if (!templates) return;
+    handleUpdateProfile({
+      systemPromptTemplate: activeProfile.evaluator.systemPromptTemplate || templates.systemPromptTemplate,
+      userPromptTemplate: activeProfile.evaluator.userPromptTemplate || templates.userPromptTemplate
+    });
+  };
+
+  const handleResetLayouts = () => {
+    if (!window.confirm('Discard the custom layouts and use the server defaults?')) return;
+    handleUpdateProfile({ systemPromptTemplate: undefined, userPromptTemplate: undefined });
+  };
+
+  const provider = activeProfile.evaluator.provider ?? 'openai';
+  const providerInfo = (id: EvaluatorProviderId) => providers.find(p => p.id === id);
+  const providerOption = (id: EvaluatorProviderId) => {
+    const info = providerInfo(id);
+    return `${PROVIDER_LABELS[id]}${info && !info.configured ? ' (not configured)' : ''}`;
+  };
+
+  const promptVersions = activeProfile.evaluator.promptVersions ?? [];
+  const currentVersion = findPromptVersion(activeProfile.evaluator);
+  const latestVersion = promptVersions[promptVersions.length - 1];
+
+  const handleSaveVersion = () => {
+    const version = createPromptVersion(activeProfile.evaluator, versionNote);
+    handleUpdateProfile({ promptVersions: [...promptVersions, version] });
+    setVersionNote('');
+  };
+
+  const handleRestoreVersion = (version: PromptVersion) => {
+    if (!currentVersion && !window.confirm(`Discard unsaved prompt edits and restore v${version.version}?`)) {
+      return;
+    }
+    handleUpdateProfile({
+      scoringPromptTemplate: version.scoringPromptTemplate,
+      explanationPromptTemplate: version.explanationPromptTemplate,
+      systemPromptTemplate: version.systemPromptTemplate,
+      userPromptTemplate: version.userPromptTemplate
+    });
+    setComparison(null);
+  };
+
+  // Resolve at render so a diff against the current text follows further edits
+  const resolveSide = (side: number | 'current') => {
+    if (side === 'current') {
+      return {
+        ...activeProfile.evaluator,
+        label: currentVersion ? `Current (v${currentVersion.version})` : 'Current (unsaved)'
+      };
+    }
+    const version = promptVersions.find(v => v.version === side);
+    return version ? { ...version, label: `v${version.version}` } : null;
+  };
+  const comparedFrom = comparison ? resolveSide(comparison.from) : null;
+  const comparedTo = comparison ? resolveSide(comparison.to) : null;
+
+  const previewQuestion = questions.find(q => q.id === previewQuestionId) ?? questions[0];
+  // The expected answer stands in for a transcript until one is typed
+  const previewText = previewTranscript ?? previewQuestion?.expectedAnswer.text ?? '';
+
+  // Preview renders the exact request; execute also sends it to the evaluator once
+  const handleDryRun = async (execute: boolean) => {
+    if (!previewQuestion) return;
+    setPendingDryRun(execute ? 'execute' : 'preview');
+    setPreviewError(null);
+    try {
+      const wordCount = previewText.split(/\s+/).filter(Boolean).length;
+      const durationMs = Math.round((wordCount / PREVIEW_WPM) * 60000);
+      const fluencyMetrics = measureFluencyMetrics(previewText, durationMs, null, activeProfile.fluency);
+      const { payload } = buildScoreRequest(previewText, previewQuestion, activeProfile, fluencyMetrics);
+
+      const response = await fetch(api.evaluatorDryRun, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...payload, execute })
+      });
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error([errorData.error || `Dry run failed: ${response.status}`, errorData.message || errorData.details]
+          .filter(Boolean)
+          .join(': '));
+      }
+      setDryRun(await response.json() as EvaluatorDryRunResponse);
+    } catch (err) {
+      setPreviewError(err instanceof Error ? err.message : 'Dry run failed');
+    } finally {
+      setPendingDryRun(null);
+    }
   };
 
   const handleValidateSchema = () => {
@@ -79,19 +241,83 @@ function Prompts() {
         <h4 style={{ marginBottom: 'var(--space-md)' }}>Evaluator Model</h4>
         <div className="grid grid-cols-2 gap-md">
           <div>
-            <label htmlFor="evaluator-model" className="label">Model</label>
+            <label htmlFor="evaluator-provider" className="label">Provider</label>
             <select
-              id="evaluator-model"
-              name="evaluator-model"
+              id="evaluator-provider"
+              name="evaluator-provider"
               className="input select"
-              value={activeProfile.evaluator.model}
-              onChange={(e) => handleModelChange(e.target.value)}
+              value={provider}
+              onChange={(e) => handleProviderChange(e.target.value as EvaluatorProviderId)}
             >
-              <option value="gpt-4o-mini">GPT-4o Mini (Fast, Cheap)</option>
-              <option value="gpt-4o">GPT-4o (Best Quality)</option>
-              <option value="gpt-4-turbo">GPT-4 Turbo</option>
-              <option value="gpt-3.5-turbo">GPT-3.5 Turbo (Fastest)</option>
+              {(Object.keys(PROVIDER_LABELS) as EvaluatorProviderId[]).map(id => (
+                <option key={id} value={id}>{providerOption(id)}</option>
+              ))}
             </select>
+            <p className="text-small text-muted">
+              Credentials and endpoints are configured on the server
+            </p>
+          </div>
+          <div>
+            <label htmlFor="evaluator-model" className="label">{provider === 'azure' ? 'Deployment' : 'Model'}</label>
+            {provider === 'openai' ? (
+              <select
+                id="evaluator-model"
+                name="evaluator-model"
+                className="input select"
+                value={activeProfile.evaluator.model}
+                onChange={(e) => handleModelChange(e.target.value)}
+              >
+                <option value="gpt-4o-mini">GPT-4o Mini (Fast, Cheap)</option>
+                <option value="gpt-4o">GPT-4o (Best Quality)</option>
+                <option value="gpt-4-turbo">GPT-4 Turbo</option>
+                <option value="gpt-3.5-turbo">GPT-3.5 Turbo (Fastest)</option>
+              </select>
+            ) : (
+              <input
+                id="evaluator-model"
+                name="evaluator-model"
+                type="text"
+                className="input"
+                placeholder={`Server default (${providerInfo(provider)?.defaultModel ?? 'unknown'})`}
+                value={activeProfile.evaluator.model}
+                onChange={(e) => handleModelChange(e.target.value)}
+              />
+            )}
+          </div>
+          <div>
+            <label htmlFor="evaluator-fallback" className="label">Fallback Provider</label>
+            <select
+              id="evaluator-fallback"
+              name="evaluator-fallback"
+              className="input select"
+              value={activeProfile.evaluator.fallback?.provider ?? ''}
+              onChange={(e) => handleFallbackChange(e.target.value as EvaluatorProviderId | '')}
+            >
+              <option value="">None</option>
+              {(Object.keys(PROVIDER_LABELS) as EvaluatorProviderId[])
+                .filter(id => id !== provider)
+                .map(id => (
+                  <option key={id} value={id}>{providerOption(id)}</option>
+                ))}
+            </select>
+            <p className="text-small text-muted">
+              Used when the provider is down, rate limited or not configured
+            </p>
+          </div>
+          <div>
+            <label htmlFor="evaluator-fallback-model" className="label">Fallback Model</label>
+            <input
+              id="evaluator-fallback-model"
+              name="evaluator-fallback-model"
+              type="text"
+              className="input"
+              disabled={!activeProfile.evaluator.fallback}
+              placeholder={activeProfile.evaluator.fallback
+                ? `Server default (${providerInfo(activeProfile.evaluator.fallback.provider)?.defaultModel ?? 'unknown'})`
+                : 'No fallback'}
+              value={activeProfile.evaluator.fallback?.model ?? ''}
+              onChange={(e) => handleFallbackModelChange(e.target.value)}
+            />
           </div>
           <div>
             <label htmlFor="evaluator-temperature" className="label">Temperature ({activeProfile.evaluator.temperature})</label>
@@ -110,6 +336,40 @@ function Prompts() {
               Lower = more deterministic, Higher = more creative
             </p>
           </div>
+          <div>
+            <label htmlFor="evaluator-max-attempts" className="label">Max Attempts</label>
+            <input
+              id="evaluator-max-attempts"
+              name="evaluator-max-attempts"
+              type="number"
+              min="1"
+              max="5"
+              className="input"
+              placeholder="Server default (2)"
+              value={activeProfile.evaluator.maxAttempts ?? ''}
+              onChange={(e) => handleMaxAttemptsChange(parseInt(e.target.value, 10))}
+            />
+            <p className="text-small text-muted">
+              Output that fails schema validation is sent back with a repair prompt until this many completions
+            </p>
+          </div>
+          <div>
+            <label htmlFor="evaluator-samples" className="label">Samples per Run</label>
+            <input
+              id="evaluator-samples"
+              name="evaluator-samples"
+              type="number"
+              min="1"
+              max="10"
+              className="input"
+              placeholder="1"
+              value={activeProfile.evaluator.samples ?? ''}
+              onChange={(e) => handleSamplesChange(parseInt(e.target.value, 10))}
+            />
+            <p className="text-small text-muted">
+              Score each run this many times and report the mean with its spread. Each sample is billed
+            </p>
+          </div>
         </div>
       </div>
 
@@ -156,43 +416,299 @@ function Prompts() {
         />
       </div>
 
+      {/* Prompt Layout */}
+      <div className="paper-card">
+        <div className="flex justify-between items-center" style={{ marginBottom: 'var(--space-md)' }}>
+          <h4>Prompt Layout</h4>
+          <div className="flex gap-sm">
+            <button className="btn btn-secondary" onClick={handleCustomizeLayouts} disabled={!templates}>
+              Load Defaults
+            </button>
+            <button
+              className="btn btn-ghost"
+              onClick={handleResetLayouts}
+              disabled={!activeProfile.evaluator.systemPromptTemplate && !activeProfile.evaluator.userPromptTemplate}
+            >
+              Use Server Defaults
+            </button>
+          </div>
+        </div>
+        <p className="text-small text-muted" style={{ marginBottom: 'var(--space-sm)' }}>
+          The full system and user messages sent to the evaluator. Leave a layout empty to use the server default.
+          All templates on this page can use <span className="mono">{'{{variable}}'}</span> placeholders;
+          the layouts place the prompts above with <span className="mono">{'{{scoringPrompt}}'}</span> and{' '}
+          <span className="mono">{'{{explanationPrompt}}'}</span>.
+        </p>
+        <label htmlFor="system-layout" className="label">System Message</label>
+        <textarea
+          id="system-layout"
+          name="system-layout"
+          className="input textarea input-mono"
+          value={activeProfile.evaluator.systemPromptTemplate ?? ''}
+          onChange={(e) => handleSystemLayoutChange(e.target.value)}
+          rows={10}
+          placeholder="Server default layout"
+          aria-label="System message layout"
+        />
+        <label htmlFor="user-layout" className="label" style={{ marginTop: 'var(--space-md)' }}>User Message</label>
+        <textarea
+          id="user-layout"
+          name="user-layout"
+          className="input textarea input-mono"
+          value={activeProfile.evaluator.userPromptTemplate ?? ''}
+          onChange={(e) => handleUserLayoutChange(e.target.value)}
+          rows={10}
+          placeholder="Server default layout"
+          aria-label="User message layout"
+        />
+        {templates ? (
+          <details style={{ marginTop: 'var(--space-md)' }}>
+            <summary className="text-small" style={{ cursor: 'pointer' }}>
+              Available variables ({templates.variables.length})
+            </summary>
+            <table style={{ width: '100%', borderCollapse: 'collapse', marginTop: 'var(--space-sm)' }}>
+              <tbody>
+                {templates.variables.map(variable => (
+                  <tr key={variable.name} style={{ borderTop: '1px solid var(--stroke)' }}>
+                    <td className="mono text-small" style={{ padding: '2px var(--space-sm)', whiteSpace: 'nowrap' }}>
+                      {`{{${variable.name}}}`}
+                    </td>
+                    <td className="text-small" style={{ padding: '2px var(--space-sm)' }}>{variable.description}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </details>
+        ) : (
+          <p className="text-small text-muted" style={{ marginTop: 'var(--space-sm)' }}>
+            Server unreachable: default layouts and the variable list are unavailable.
+          </p>
+        )}
+      </div>
+
+      {/* Prompt Versions */}
+      <div className="paper-card">
+        <div className="flex justify-between items-center" style={{ marginBottom: 'var(--space-md)' }}>
+          <h4>Prompt Versions</h4>
+          <span className="mono text-small" style={{ color: currentVersion ? 'var(--accent-success)' : 'var(--accent-yellow)' }}>
+            {currentVersion
+              ? `Current: v${currentVersion.version} (${hashPrompts(activeProfile.evaluator)})`
+              : latestVersion
+                ? `Unsaved edits since v${latestVersion.version}`
+                : 'No saved versions'}
+          </span>
+        </div>
+        <p className="text-small text-muted" style={{ marginBottom: 'var(--space-sm)' }}>
+          Save a version to snapshot the templates and layouts with a note. Runs record the version that scored them;
+          runs scored with unsaved edits keep a copy of the prompts instead.
+        </p>
+        <div className="flex gap-sm" style={{ marginBottom: 'var(--space-md)' }}>
+          <input
+            id="prompt-version-note"
+            name="prompt-version-note"
+            type="text"
+            className="input"
+            placeholder="What changed?"
+            value={versionNote}
+            onChange={(e) => setVersionNote(e.target.value)}
+            aria-label="Version note"
+          />
+          <button className="btn btn-primary" onClick={handleSaveVersion} disabled={!!currentVersion}>
+            Save Version
+          </button>
+        </div>
+
+        {promptVersions.length > 0 && (
+          <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+            <thead>
+              <tr style={{ background: 'var(--surface-paper-2)' }}>
+                <th className="mono text-small" style={{ padding: 'var(--space-sm)', textAlign: 'left', color: 'var(--accent-yellow)' }}>Version</th>
+                <th className="mono text-small" style={{ padding: 'var(--space-sm)', textAlign: 'left', color: 'var(--accent-yellow)' }}>Saved</th>
+                <th className="mono text-small" style={{ padding: 'var(--space-sm)', textAlign: 'left', color: 'var(--accent-yellow)' }}>Note</th>
+                <th className="mono text-small" style={{ padding: 'var(--space-sm)', color: 'var(--accent-yellow)' }}></th>
+              </tr>
+            </thead>
+            <tbody>
+              {[...promptVersions].reverse().map((version, i, newestFirst) => {
+                const previous = newestFirst[i + 1];
+                const isCurrent = currentVersion?.version === version.version;
+                return (
+                  <tr key={version.version} style={{ borderTop: '1px solid var(--stroke)' }}>
+                    <td className="mono text-small" style={{ padding: 'var(--space-sm)', fontWeight: isCurrent ? 'bold' : undefined }}>
+                      v{version.version} <span className="text-muted">({hashPrompts(version)})</span>
+                      {isCurrent && ' · current'}
+                    </td>
+                    <td className="mono text-small" style={{ padding: 'var(--space-sm)' }}>
+                      {new Date(version.createdAt).toLocaleString()}
+                    </td>
+                    <td className="text-small" style={{ padding: 'var(--space-sm)' }}>{version.note || '-'}</td>
+                    <td style={{ padding: 'var(--space-sm)', textAlign: 'right', whiteSpace: 'nowrap' }}>
+                      {previous && (
+                        <button className="btn btn-ghost" onClick={() => setComparison({ from: previous.version, to: version.version })}>
+                          Changes
+                        </button>
+                      )}
+                      {!isCurrent && (
+                        <>
+                          <button className="btn btn-ghost" onClick={() => setComparison({ from: version.version, to: 'current' })}>
+                            Diff
+                          </button>
+                          <button className="btn btn-secondary" onClick={() => handleRestoreVersion(version)}>
+                            Restore
+                          </button>
+                        </>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {/* Version diff */}
+      {comparedFrom && comparedTo && (
+        <div className="paper-card">
+          <div className="flex justify-between items-center" style={{ marginBottom: 'var(--space-md)' }}>
+            <h4>{comparedFrom.label} → {comparedTo.label}</h4>
+            <button className="btn btn-ghost text-small" onClick={() => setComparison(null)}>
+              Close
+            </button>
+          </div>
+          <PromptDiff
+            title="Scoring Prompt Template"
+            leftLabel={comparedFrom.label}
+            rightLabel={comparedTo.label}
+            before={comparedFrom.scoringPromptTemplate}
+            after={comparedTo.scoringPromptTemplate}
+          />
+          <PromptDiff
+            title="Explanation Prompt Template"
+            leftLabel={comparedFrom.label}
+            rightLabel={comparedTo.label}
+            before={comparedFrom.explanationPromptTemplate}
+            after={comparedTo.explanationPromptTemplate}
+          />
+          {(comparedFrom.systemPromptTemplate || comparedTo.systemPromptTemplate) && (
+            <PromptDiff
+              title="System Message Layout"
+              leftLabel={comparedFrom.label}
+              rightLabel={comparedTo.label}
+              before={comparedFrom.systemPromptTemplate ?? ''}
+              after={comparedTo.systemPromptTemplate ?? ''}
+            />
+          )}
+          {(comparedFrom.userPromptTemplate || comparedTo.userPromptTemplate) && (
+            <PromptDiff
+              title="User Message Layout"
+              leftLabel={comparedFrom.label}
+              rightLabel={comparedTo.label}
+              before={comparedFrom.userPromptTemplate ?? ''}
+              after={comparedTo.userPromptTemplate ?? ''}
+            />
+          )}
+        </div>
+      )}
+
       {/* Actions */}
       <div className="paper-card">
+        <h4 style={{ marginBottom: 'var(--space-md)' }}>Dry Run</h4>
+        <div className="grid grid-cols-2 gap-md" style={{ marginBottom: 'var(--space-md)' }}>
+          <div>
+            <label htmlFor="preview-question" className="label">Sample Question</label>
+            <select
+              id="preview-question"
+              name="preview-question"
+              className="input select"
+              value={previewQuestion?.id ?? ''}
+              onChange={(e) => {
+                setPreviewQuestionId(e.target.value);
+                setPreviewTranscript(null);
+              }}
+            >
+              {questions.map(q => (
+                <option key={q.id} value={q.id}>{q.id}: {q.scenarioPrompt}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="preview-transcript" className="label">Sample Transcript</label>
+            <textarea
+              id="preview-transcript"
+              name="preview-transcript"
+              className="input textarea"
+              value={previewText}
+              onChange={(e) => setPreviewTranscript(e.target.value)}
+              rows={3}
+              aria-label="Sample transcript"
+            />
+          </div>
+        </div>
         <div className="flex gap-md">
-          <button className="btn btn-secondary" onClick={handlePreview}>
-            Preview Payload
+          <button className="btn btn-secondary" onClick={() => handleDryRun(false)} disabled={!previewQuestion || !!pendingDryRun}>
+            {pendingDryRun === 'preview' ? 'Rendering...' : 'Preview Payload'}
+          </button>
+          <button className="btn btn-primary" onClick={() => handleDryRun(true)} disabled={!previewQuestion || !!pendingDryRun}>
+            {pendingDryRun === 'execute' ? 'Running...' : 'Run Against Evaluator'}
           </button>
           <p className="text-small text-muted" style={{ alignSelf: 'center' }}>
-            Changes are saved automatically.
+            Edits are saved automatically; use Save Version to keep a revision you can roll back to.
           </p>
         </div>
+        {previewError && (
+          <p className="text-small" style={{ color: 'var(--accent-danger)', marginTop: 'var(--space-sm)' }}>
+            {previewError}
+          </p>
+        )}
       </div>
 
-      {/* Preview */}
-      {previewPayload && (
+      {/* Dry run */}
+      {dryRun && (
         <div className="paper-card">
           <div className="flex justify-between items-center" style={{ marginBottom: 'var(--space-md)' }}>
-            <h4>Request Payload Preview</h4>
+            <h4>Request Payload</h4>
             <button
               className="btn btn-ghost text-small"
-              onClick={() => setPreviewPayload(null)}
+              onClick={() => setDryRun(null)}
             >
               Close
             </button>
           </div>
-          <pre
-            className="mono text-small"
-            style={{
-              background: 'var(--surface-ink)',
-              color: 'var(--text-on-dark)',
-              padding: 'var(--space-md)',
-              borderRadius: 'var(--radius-md)',
-              overflow: 'auto',
-              maxHeight: '400px'
-            }}
-          >
-            {previewPayload}
+          <p className="text-small text-muted" style={{ marginBottom: 'var(--space-sm)' }}>
+            Exactly what the score route sends to {PROVIDER_LABELS[dryRun.provider]}
+            {dryRun.usedFallback && ' (fallback)'} at <span className="mono">{dryRun.url}</span> for the first attempt
+            (credentials omitted). Repair retries append
+            the model's output and a repair prompt to these messages.
+          </p>
+          {dryRun.unknownVariables.length > 0 && (
+            <p className="text-small" style={{ color: 'var(--accent-yellow)', marginBottom: 'var(--space-sm)' }}>
+              Unknown variables left as-is: {dryRun.unknownVariables.map(name => `{{${name}}}`).join(', ')}
+            </p>
+          )}
+          <pre className="mono text-small" style={preStyle}>
+            {JSON.stringify(dryRun.request, null, 2)}
           </pre>
+
+          {dryRun.output && (
+            <>
+              <div className="flex justify-between items-center" style={{ margin: 'var(--space-md) 0 var(--space-sm)' }}>
+                <h4>Raw Model Output</h4>
+                <span className="mono text-small" style={{ color: dryRun.output.valid ? 'var(--accent-success)' : 'var(--accent-danger)' }}>
+                  {dryRun.output.valid ? 'Valid' : 'Failed validation'} · {dryRun.output.latency_ms}ms
+                  {dryRun.output.usage && ` · ${dryRun.output.usage.prompt_tokens} in / ${dryRun.output.usage.completion_tokens} out tokens`}
+                </span>
+              </div>
+              {dryRun.output.errors.length > 0 && (
+                <ul className="text-small" style={{ color: 'var(--accent-danger)', marginBottom: 'var(--space-sm)' }}>
+                  {dryRun.output.errors.map((error, i) => <li key={i}>{error}</li>)}
+                </ul>
+              )}
+              <pre className="mono text-small" style={preStyle}>
+                {dryRun.output.content ?? '(empty response)'}
+              </pre>
+            </>
+          )}
         </div>
       )}
     </div>
@@ -6,6 +6,9 @@ import { useTelemetry } from '../hooks/useTelemetry';
 import TranscriptDisplay from '../components/TranscriptDisplay';
 import ScoreDisplay from '../components/ScoreDisplay';
 import TelemetryStrip from '../components/TelemetryStrip';
+import ProfileComparison from '../components/ProfileComparison';
+import { isFileProvider, DEFAULT_STT_PROVIDER } from '../stt/fileTranscription';
+import { collectVocabulary } from '../utils/transcriptionPrompt';
 import type { TestRun } from '../types';
 
 // SVG Icons
@@ -54,7 +57,8 @@ function STTTest() {
     previousQuestion,
     shuffleQuestions,
     isLoaded,
-    error: questionError
+    error: questionError,
+    questionBank
   } = useQuestionBank();
 
   const { activeProfile, profiles, activeProfileId, setActiveProfileId } = useProfile();
@@ -69,6 +73,7 @@ function STTTest() {
     interimTranscript,
     finalTranscript,
     scoreResult,
+    lastUtterance,
     error: sessionError,
     startSession,
     stopSession,
@@ -79,19 +84,21 @@ function STTTest() {
   } = useSTTSession(handleRunComplete);
 
   // Pre-connect: mint token in advance when profile is available for faster startup
+  // (file providers transcribe after the recording, so there is nothing to warm up)
   useEffect(() => {
-    if (activeProfile) {
-      preConnect();
+    if (activeProfile && !isFileProvider(activeProfile.transcription?.provider)) {
+      preConnect(activeProfile);
     }
   }, [activeProfile, preConnect]);
 
   const canRecord = currentQuestion && activeProfile && status === 'idle';
+  const vocabularyTerms = collectVocabulary(questionBank?.meta.vocabulary, currentQuestion);
   const isProcessing = status === 'processing' || status === 'connecting';
 
   const handleStartRecording = useCallback(async () => {
     if (!currentQuestion || !activeProfile) return;
-    await startSession(currentQuestion, activeProfile);
-  }, [currentQuestion, activeProfile, startSession]);
+    await startSession(currentQuestion, activeProfile, questionBank?.meta.vocabulary);
+  }, [currentQuestion, activeProfile, questionBank, startSession]);
 
   const handleStopRecording = useCallback(() => {
     stopSession();
@@ -322,7 +329,8 @@ function STTTest() {
         interimTranscript={interimTranscript}
         finalTranscript={finalTranscript}
         isRecording={isRecording}
-        expectedAnswer={currentQuestion?.expectedAnswer.text}
+        question={currentQuestion ?? undefined}
+        profile={activeProfile ?? undefined}
       />
 
       {/* Score Section */}
@@ -331,6 +339,13 @@ function STTTest() {
         isLoading={status === 'processing'}
       />
 
+      {/* Re-score the same utterance under other profiles */}
+      <ProfileComparison
+        utterance={lastUtterance}
+        profiles={profiles}
+        activeProfileId={activeProfileId}
+      />
+
       {/* Quick Stats Footer */}
       {activeProfile && (
         <div className="ink-bar">
@@ -345,6 +360,16 @@ function STTTest() {
                 S:{Math.round(activeProfile.weights.structure * 100)}%
               </strong>
             </span>
+            <span className="mono text-small">
+              STT: <strong style={{ color: 'var(--brass-light)' }}>
+                {activeProfile.transcription?.provider ?? DEFAULT_STT_PROVIDER}
+              </strong>
+            </span>
+            {vocabularyTerms.length > 0 && (
+              <span className="mono text-small" title={vocabularyTerms.join(', ')}>
+                Vocabulary: <strong style={{ color: 'var(--brass-light)' }}>{vocabularyTerms.length} terms</strong>
+              </span>
+            )}
           </div>
         </div>
       )}
@@ -72,7 +72,7 @@ function Scoring() {
               {activeProfile.normalization.digitWordEquivalence ? '✓' : '✗'} Digit/word equivalence (1 = one, 2 = two)
             </li>
             <li className={activeProfile.normalization.rtNumberVariants ? '' : 'text-muted'}>
-              {activeProfile.normalization.rtNumberVariants ? '✓' : '✗'} R/T variants (niner = 9, tree = 3)
+              {activeProfile.normalization.rtNumberVariants ? '✓' : '✗'} R/T numbers (niner = 9, tree = 3, "one one eight decimal five" = 118.5, "one zero thousand" = 10000)
             </li>
           </ul>
         </div>
@@ -87,6 +87,7 @@ function Scoring() {
         <h4 style={{ marginBottom: 'var(--space-md)' }}>Fluency Scoring</h4>
         <p style={{ marginBottom: 'var(--space-md)' }}>
           Evaluates speech clarity based on filler words, pauses, and speaking pace.
+          Pauses are measured from silence in the recorded audio.
         </p>
 
         <div className="grid grid-cols-2 gap-md">
@@ -121,6 +122,9 @@ function Scoring() {
         <h4 style={{ marginBottom: 'var(--space-md)' }}>Structure Scoring</h4>
         <p style={{ marginBottom: 'var(--space-md)' }}>
           Checks for proper radio/telephone communication format. Requirements vary per question.
+          A rule-based parser finds each component in the transcript, in order (receiver → sender → message → closing),
+          using the callsigns a question declares in <code className="mono">expectedAnswer.callsigns</code>. Its findings
+          are passed to the evaluator and give the structure score when grading offline.
         </p>
 
         <div className="paper-card-2">
@@ -140,11 +144,12 @@ function Scoring() {
         <h4 style={{ marginBottom: 'var(--space-md)' }}>Pass Criteria</h4>
         <div className="ink-bar">
           Overall score must be ≥ <strong>{activeProfile.benchmarks.passMarkOverall}%</strong> to pass
+          {activeProfile.benchmarks.minPerSection && ', and every section must meet its minimum'}
         </div>
 
         {activeProfile.benchmarks.minPerSection && (
           <div style={{ marginTop: 'var(--space-md)' }}>
-            <p className="text-small text-muted">Minimum per section (if set):</p>
+            <p className="text-small text-muted">Minimum per section (a run below any of these fails):</p>
             <ul className="text-small" style={{ paddingLeft: 'var(--space-md)' }}>
               {activeProfile.benchmarks.minPerSection.accuracy && (
                 <li>Accuracy: {activeProfile.benchmarks.minPerSection.accuracy}%</li>
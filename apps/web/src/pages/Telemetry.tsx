@@ -1,15 +1,39 @@
+import { useMemo } from 'react';
 import { useTelemetry } from '../hooks/useTelemetry';
+import { useProfile } from '../hooks/useProfile';
+import { rollUpByProfile, rollUpByEvaluatorModel, rollUpByTranscriptionModel, fallbackPricedModels } from '../utils/costRollup';
+import { rollUpEvaluatorReliability } from '../utils/evaluatorReliability';
+
+const thStyle = { padding: 'var(--space-sm)', color: 'var(--accent-yellow)' } as const;
+const tdStyle = { padding: 'var(--space-sm)' } as const;
 
 function Telemetry() {
-  const { telemetry, runs, clearTelemetry } = useTelemetry();
+  const { telemetry, runs, syncStatus, clearTelemetry } = useTelemetry();
+  const { profiles } = useProfile();
+
+  const byProfile = useMemo(() => rollUpByProfile(runs), [runs]);
+  const byEvaluatorModel = useMemo(() => rollUpByEvaluatorModel(runs), [runs]);
+  const byTranscriptionModel = useMemo(() => rollUpByTranscriptionModel(runs), [runs]);
+  const reliability = useMemo(() => rollUpEvaluatorReliability(runs), [runs]);
+  const unpricedModels = useMemo(() => fallbackPricedModels(runs), [runs]);
+  const totalEstimated = unpricedModels.length > 0;
+
+  const handleClear = () => {
+    if (syncStatus !== 'synced' || confirm('Clear the runs cached in this browser? The shared history on the server is kept.')) {
+      clearTelemetry();
+    }
+  };
+
+  const profileName = (id: string) => profiles.find(p => p.id === id)?.name ?? id;
 
   const formatMs = (ms: number) => {
     if (ms < 1000) return `${Math.round(ms)}ms`;
     return `${(ms / 1000).toFixed(2)}s`;
   };
 
-  const formatCost = (cost: number) => {
-    return `$${cost.toFixed(4)}`;
+  // '*' marks costs that include models priced at the default model's rates
+  const formatCost = (cost: number, estimated = false) => {
+    return `$${cost.toFixed(4)}${estimated ? ' *' : ''}`;
   };
 
   return (
@@ -18,7 +42,7 @@ function Telemetry() {
       <div className="paper-card">
         <div className="flex justify-between items-center" style={{ marginBottom: 'var(--space-md)' }}>
           <h2>Session Telemetry</h2>
-          <button className="btn btn-secondary" onClick={clearTelemetry}>
+          <button className="btn btn-secondary" onClick={handleClear}>
             Clear Session
           </button>
         </div>
@@ -47,7 +71,7 @@ function Telemetry() {
 
           <div className="paper-card-2 text-center">
             <h3 style={{ marginBottom: 'var(--space-xs)', color: 'var(--accent-yellow)' }}>
-              {formatCost(telemetry.totalCost)}
+              {formatCost(telemetry.totalCost, totalEstimated)}
             </h3>
             <p className="mono text-small text-muted">Est. Cost</p>
           </div>
@@ -155,16 +179,16 @@ function Telemetry() {
 
         <div className="ink-bar" style={{ marginBottom: 'var(--space-md)' }}>
           <span className="text-small">
-            Total session cost: <strong>{formatCost(telemetry.totalCost)}</strong>
+            Total session cost: <strong>{formatCost(telemetry.totalCost, totalEstimated)}</strong>
           </span>
         </div>
 
         {runs.length > 0 && (
-          <div className="paper-card-2">
+          <div className="paper-card-2" style={{ marginBottom: 'var(--space-md)' }}>
             <div className="flex justify-between" style={{ marginBottom: 'var(--space-xs)' }}>
               <span className="mono text-small" style={{ color: 'var(--accent-yellow)' }}>Per Run (Avg)</span>
               <span className="mono text-small">
-                {formatCost(telemetry.totalCost / runs.length)}
+                {formatCost(telemetry.totalCost / runs.length, totalEstimated)}
               </span>
             </div>
             <div className="flex justify-between">
@@ -174,11 +198,137 @@ function Telemetry() {
           </div>
         )}
 
+        {runs.length > 0 && (
+          <div className="flex flex-col gap-md">
+            <div>
+              <h5 style={{ marginBottom: 'var(--space-sm)' }}>By Profile</h5>
+              <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+                <thead>
+                  <tr style={{ background: 'var(--surface-paper-2)' }}>
+                    <th className="mono text-small" style={{ ...thStyle, textAlign: 'left' }}>Profile</th>
+                    <th className="mono text-small" style={{ ...thStyle, textAlign: 'right' }}>Runs</th>
+                    <th className="mono text-small" style={{ ...thStyle, textAlign: 'right' }}>Transcription</th>
+                    <th className="mono text-small" style={{ ...thStyle, textAlign: 'right' }}>Evaluator</th>
+                    <th className="mono text-small" style={{ ...thStyle, textAlign: 'right' }}>Total</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {byProfile.map(row => (
+                    <tr key={row.profileId} style={{ borderTop: '1px solid var(--stroke)' }}>
+                      <td className="mono text-small" style={tdStyle}>{profileName(row.profileId)}</td>
+                      <td className="mono text-small" style={{ ...tdStyle, textAlign: 'right' }}>{row.runs}</td>
+                      <td className="mono text-small" style={{ ...tdStyle, textAlign: 'right' }}>{formatCost(row.transcriptionCost)}</td>
+                      <td className="mono text-small" style={{ ...tdStyle, textAlign: 'right' }}>{formatCost(row.evaluatorCost)}</td>
+                      <td className="mono text-small" style={{ ...tdStyle, textAlign: 'right' }}>{formatCost(row.totalCost, row.estimated)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="grid grid-cols-2 gap-lg">
+              <div>
+                <h5 style={{ marginBottom: 'var(--space-sm)' }}>By Evaluator Model</h5>
+                <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+                  <thead>
+                    <tr style={{ background: 'var(--surface-paper-2)' }}>
+                      <th className="mono text-small" style={{ ...thStyle, textAlign: 'left' }}>Model</th>
+                      <th className="mono text-small" style={{ ...thStyle, textAlign: 'right' }}>Tokens (in/out)</th>
+                      <th className="mono text-small" style={{ ...thStyle, textAlign: 'right' }}>Cost</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {byEvaluatorModel.map(row => (
+                      <tr key={row.model} style={{ borderTop: '1px solid var(--stroke)' }}>
+                        <td className="mono text-small" style={tdStyle}>{row.model} ({row.runs})</td>
+                        <td className="mono text-small" style={{ ...tdStyle, textAlign: 'right' }}>
+                          {row.promptTokens.toLocaleString()} / {row.completionTokens.toLocaleString()}
+                        </td>
+                        <td className="mono text-small" style={{ ...tdStyle, textAlign: 'right' }}>{formatCost(row.cost, row.estimated)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              <div>
+                <h5 style={{ marginBottom: 'var(--space-sm)' }}>By Transcription Model</h5>
+                <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+                  <thead>
+                    <tr style={{ background: 'var(--surface-paper-2)' }}>
+                      <th className="mono text-small" style={{ ...thStyle, textAlign: 'left' }}>Model</th>
+                      <th className="mono text-small" style={{ ...thStyle, textAlign: 'right' }}>Audio</th>
+                      <th className="mono text-small" style={{ ...thStyle, textAlign: 'right' }}>Cost</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {byTranscriptionModel.map(row => (
+                      <tr key={row.model} style={{ borderTop: '1px solid var(--stroke)' }}>
+                        <td className="mono text-small" style={tdStyle}>{row.model} ({row.runs})</td>
+                        <td className="mono text-small" style={{ ...tdStyle, textAlign: 'right' }}>{(row.audioSeconds / 60).toFixed(2)} min</td>
+                        <td className="mono text-small" style={{ ...tdStyle, textAlign: 'right' }}>{formatCost(row.cost, row.estimated)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          </div>
+        )}
+
         <p className="text-small text-muted" style={{ marginTop: 'var(--space-sm)' }}>
-          Cost estimated based on audio duration and evaluator tokens.
-          Actual billing may vary.
+          Cost computed per run from measured audio seconds and the evaluator's reported token usage,
+          using the pricing table in <span className="mono">utils/pricing.ts</span>. Actual billing may vary.
         </p>
+        {totalEstimated && (
+          <p className="text-small" style={{ marginTop: 'var(--space-xs)', color: 'var(--accent-danger)' }}>
+            * Estimated: no price entry for <span className="mono">{unpricedModels.join(', ')}</span>; those
+            runs are priced at the default model's rates.
+          </p>
+        )}
       </div>
+
+      {/* Evaluator Reliability */}
+      {reliability.length > 0 && (
+        <div className="paper-card">
+          <h4 style={{ marginBottom: 'var(--space-md)' }}>Evaluator Reliability</h4>
+          <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+            <thead>
+              <tr style={{ background: 'var(--surface-paper-2)' }}>
+                <th className="mono text-small" style={{ ...thStyle, textAlign: 'left' }}>Model</th>
+                <th className="mono text-small" style={{ ...thStyle, textAlign: 'right' }}>Runs</th>
+                <th className="mono text-small" style={{ ...thStyle, textAlign: 'right' }}>Valid First Try</th>
+                <th className="mono text-small" style={{ ...thStyle, textAlign: 'right' }}>Repaired</th>
+                <th className="mono text-small" style={{ ...thStyle, textAlign: 'right' }}>Failed</th>
+                <th className="mono text-small" style={{ ...thStyle, textAlign: 'right' }}>Avg Attempts</th>
+              </tr>
+            </thead>
+            <tbody>
+              {reliability.map(row => (
+                <tr key={row.model} style={{ borderTop: '1px solid var(--stroke)' }}>
+                  <td className="mono text-small" style={tdStyle}>{row.model}</td>
+                  <td className="mono text-small" style={{ ...tdStyle, textAlign: 'right' }}>{row.runs}</td>
+                  <td className="mono text-small" style={{ ...tdStyle, textAlign: 'right' }}>
+                    {((row.firstAttemptValid / row.runs) * 100).toFixed(0)}%
+                  </td>
+                  <td className="mono text-small" style={{ ...tdStyle, textAlign: 'right' }}>{row.repaired}</td>
+                  <td
+                    className="mono text-small"
+                    style={{ ...tdStyle, textAlign: 'right', color: row.failed > 0 ? 'var(--accent-danger)' : undefined }}
+                  >
+                    {row.failed}
+                  </td>
+                  <td className="mono text-small" style={{ ...tdStyle, textAlign: 'right' }}>{row.averageAttempts.toFixed(2)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="text-small text-muted" style={{ marginTop: 'var(--space-sm)' }}>
+            Evaluator output is checked against the score schema (0-100 scores, string reason arrays).
+            Invalid output is retried with a repair prompt; runs that stay invalid are graded locally.
+          </p>
+        </div>
+      )}
     </div>
   );
 }
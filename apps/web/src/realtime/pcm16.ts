@@ -0,0 +1,49 @@
+/**
+ * PCM16 encoding for the Realtime API
+ *
+ * OpenAI requires 16-bit PCM, 24kHz, mono, little-endian, sent as base64 in
+ * input_audio_buffer.append events.
+ */
+
+export const TARGET_SAMPLE_RATE = 24000;
+
+/**
+ * Convert Float32 samples (-1 to 1) to little-endian Int16 PCM bytes
+ */
+export function floatToPcm16(samples: Float32Array): Uint8Array {
+  const bytes = new Uint8Array(samples.length * 2);
+  const dataView = new DataView(bytes.buffer);
+
+  for (let i = 0; i < samples.length; i++) {
+    // Clamp to [-1, 1] and scale to Int16 range
+    const s = Math.max(-1, Math.min(1, samples[i]));
+    const sample = s < 0 ? Math.round(s * 0x8000) : Math.round(s * 0x7FFF);
+    dataView.setInt16(i * 2, sample, true); // true = little-endian
+  }
+
+  return bytes;
+}
+
+/**
+ * Base64-encode bytes, building the binary string in chunks to avoid stack overflow
+ */
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binaryString = '';
+  const chunkSize = 8192;
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    const chunk = bytes.subarray(i, Math.min(i + chunkSize, bytes.length));
+    binaryString += String.fromCharCode.apply(null, Array.from(chunk));
+  }
+  return btoa(binaryString);
+}
+
+/**
+ * RMS level of a block of Float32 samples
+ */
+export function calculateRms(samples: Float32Array): number {
+  let sumSquares = 0;
+  for (let i = 0; i < samples.length; i++) {
+    sumSquares += samples[i] * samples[i];
+  }
+  return samples.length > 0 ? Math.sqrt(sumSquares / samples.length) : 0;
+}
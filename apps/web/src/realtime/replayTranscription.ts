@@ -0,0 +1,201 @@
+/**
+ * Transcribe pre-recorded audio through the Realtime API
+ *
+ * Batch replay counterpart of the live capture loop in useSTTSession: same
+ * ephemeral session (with the profile's VAD and transcription settings), same PCM16 framing and
+ * the same silence segmentation, but fed from decoded samples instead of the
+ * microphone. Audio is paced at a multiple of real time - server VAD works on
+ * the audio timeline, so segmentation matches a live take without the wait.
+ */
+
+import type { VADSettings, ProfileTranscription } from '../types';
+import { createSilenceSegmenter } from '../audio/silenceSegmenter';
+import type { SpeechSegmentation } from '../audio/silenceSegmenter';
+import { requestClientSecret, openTranscriptionSocket, createSessionUpdateEvent } from './transcriptionSocket';
+import { floatToPcm16, bytesToBase64, calculateRms, TARGET_SAMPLE_RATE } from './pcm16';
+import { DEFAULT_TRANSCRIPTION_MODEL } from '../utils/pricing';
+
+// ~85ms per append, the same duration as a 4096-sample buffer captured at 48kHz
+export const CHUNK_SAMPLES = 2048;
+
+// Audio is sent this many times faster than real time
+const REPLAY_SPEED = 4;
+
+// How long to wait for outstanding transcriptions after the final commit
+const FINALIZE_TIMEOUT_MS = 30000;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export interface ReplayTranscription {
+  transcript: string;
+  segmentation: SpeechSegmentation;
+  durationMs: number;
+  transcriptionModel: string;
+  connectTimeMs: number;
+  timeToFirstTextMs: number;
+  timeToFinalMs: number;
+  timedOut: boolean; // Finalize timeout hit before every committed item was transcribed
+}
+
+export async function transcribeSamples(
+  samples: Float32Array,
+  options: { vad?: VADSettings; transcription?: ProfileTranscription } = {}
+): Promise<ReplayTranscription> {
+  const startTime = Date.now();
+
+  const { clientSecret, model, transcription } = await requestClientSecret(options.vad, options.transcription);
+  const ws = await openTranscriptionSocket(clientSecret);
+  const connectTimeMs = Date.now() - startTime;
+
+  // Same session finalization as a live take, before any audio
+  ws.send(JSON.stringify(createSessionUpdateEvent(transcription)));
+
+  const segmenter = createSilenceSegmenter();
+  const itemOrder: string[] = [];
+  const transcripts = new Map<string, string>();
+  const pending = new Set<string>();
+  let timeToFirstTextMs = 0;
+  let timeToFinalMs = 0;
+  // The server answers client events in order: VAD commits for the streamed audio, then our final
+  // commit (or commit_empty when VAD already took everything), then the clear that follows it
+  let finalCommitSent = false;
+  let finalCommitSeen = false;
+  let lastCommittedItemId: string | null = null;
+  let finalCommitEmpty = false;
+  let finalItemId: string | null = null;
+  let stopped = false;
+
+  try {
+    const timedOut = await new Promise<boolean>((resolve, reject) => {
+      let finalizeTimer: ReturnType<typeof setTimeout> | null = null;
+
+      const finish = (didTimeOut: boolean) => {
+        stopped = true;
+        if (finalizeTimer) clearTimeout(finalizeTimer);
+        resolve(didTimeOut);
+      };
+
+      const fail = (error: Error) => {
+        stopped = true;
+        if (finalizeTimer) clearTimeout(finalizeTimer);
+        reject(error);
+      };
+
+      // Final once our own commit's item, and every VAD item before it, has been transcribed
+      // (an item stays pending until its completed or failed event)
+      const checkDone = () => {
+        const finalItemDone = finalItemId === null || !pending.has(finalItemId);
+        if (finalCommitSeen && finalItemDone && pending.size === 0) {
+          finish(false);
+        }
+      };
+
+      ws.onmessage = (e) => {
+        let event;
+        try {
+          event = JSON.parse(e.data);
+        } catch {
+          console.warn('[Replay] Failed to parse event:', e.data);
+          return;
+        }
+
+        switch (event.type) {
+          case 'input_audio_buffer.committed':
+            itemOrder.push(event.item_id);
+            pending.add(event.item_id);
+            lastCommittedItemId = event.item_id;
+            break;
+
+          case 'input_audio_buffer.cleared':
+            if (!finalCommitSent) break;
+            // The commit answered just before this clear was ours
+            finalItemId = finalCommitEmpty ? null : lastCommittedItemId;
+            finalCommitSeen = true;
+            checkDone();
+            break;
+
+          case 'conversation.item.input_audio_transcription.delta':
+            if (timeToFirstTextMs === 0) {
+              timeToFirstTextMs = Date.now() - startTime;
+            }
+            break;
+
+          case 'conversation.item.input_audio_transcription.completed':
+            transcripts.set(event.item_id, event.transcript || '');
+            pending.delete(event.item_id);
+            timeToFinalMs = Date.now() - startTime;
+            checkDone();
+            break;
+
+          case 'conversation.item.input_audio_transcription.failed':
+            console.warn('[Replay] Transcription failed for item:', event.item_id, event.error);
+            pending.delete(event.item_id);
+            checkDone();
+            break;
+
+          case 'error':
+            // Empty commit means VAD already committed everything
+            if (event.error?.code === 'input_audio_buffer_commit_empty') {
+              finalCommitEmpty = true;
+            } else {
+              fail(new Error(event.error?.message || 'Unknown error'));
+            }
+            break;
+        }
+      };
+
+      ws.onerror = () => fail(new Error('WebSocket error'));
+      ws.onclose = (e) => {
+        if (!stopped) {
+          fail(new Error(`WebSocket closed during replay: ${e.code} ${e.reason}`));
+        }
+      };
+
+      // Stream the audio in capture-sized chunks, paced against the audio timeline
+      // (a throttled background tab catches up instead of drifting)
+      const streamAudio = async () => {
+        const streamStart = Date.now();
+        let audioMs = 0;
+        for (let offset = 0; offset < samples.length; offset += CHUNK_SAMPLES) {
+          const dueInMs = streamStart + audioMs / REPLAY_SPEED - Date.now();
+          if (dueInMs > 0) await sleep(dueInMs);
+          if (stopped) return;
+
+          const chunk = samples.subarray(offset, Math.min(offset + CHUNK_SAMPLES, samples.length));
+          const chunkMs = (chunk.length / TARGET_SAMPLE_RATE) * 1000;
+          segmenter.push(calculateRms(chunk), chunkMs);
+          audioMs += chunkMs;
+          ws.send(JSON.stringify({
+            type: 'input_audio_buffer.append',
+            audio: bytesToBase64(floatToPcm16(chunk))
+          }));
+        }
+
+        ws.send(JSON.stringify({ type: 'input_audio_buffer.commit' }));
+        ws.send(JSON.stringify({ type: 'input_audio_buffer.clear' }));
+        finalCommitSent = true;
+        finalizeTimer = setTimeout(() => finish(true), FINALIZE_TIMEOUT_MS);
+      };
+      streamAudio().catch(err => fail(err instanceof Error ? err : new Error(String(err))));
+    });
+
+    return {
+      transcript: itemOrder
+        .map(id => transcripts.get(id))
+        .filter(Boolean)
+        .join(' ')
+        .trim(),
+      segmentation: segmenter.finish(),
+      durationMs: Math.round((samples.length / TARGET_SAMPLE_RATE) * 1000),
+      transcriptionModel: model || DEFAULT_TRANSCRIPTION_MODEL,
+      connectTimeMs,
+      timeToFirstTextMs,
+      timeToFinalMs,
+      timedOut
+    };
+  } finally {
+    if (ws.readyState === WebSocket.OPEN || ws.readyState === WebSocket.CONNECTING) {
+      ws.close();
+    }
+  }
+}
@@ -0,0 +1,172 @@
+/**
+ * OpenAI Realtime transcription connection
+ *
+ * Shared by live recording and batch replay:
+ * 1. Get an ephemeral client secret from our server (with optional VAD and transcription settings)
+ * 2. Connect via WebSocket to REALTIME_URL?intent=transcription (OpenAI or the mock server)
+ * 3. Wait for session.created, then finalize the config with session.update
+ *
+ * In relay mode (VITE_REALTIME_RELAY) steps 1-2 go to our server instead: the
+ * "client secret" is a one-time relay ticket and the socket is proxied upstream.
+ */
+
+import type { VADSettings, ProfileTranscription, NoiseReductionType, TurnDetectionType } from '../types';
+import { api, REALTIME_URL, REALTIME_RELAY, REALTIME_RELAY_URL } from '../config';
+import { DEFAULT_TRANSCRIPTION_MODEL } from '../utils/pricing';
+
+const REALTIME_TRANSCRIPTION_URL = REALTIME_RELAY
+  ? REALTIME_RELAY_URL
+  : `${REALTIME_URL}?intent=transcription`;
+
+// Transcription settings the server created the session with (defaults filled in)
+export interface TranscriptionSessionConfig {
+  model: string;
+  language: string; // Empty = auto-detect
+  prompt: string;
+  noiseReduction: NoiseReductionType;
+  turnDetection: TurnDetectionType;
+}
+
+export interface ClientSecret {
+  clientSecret: string;
+  sessionId?: string;
+  model?: string;
+  transcription?: TranscriptionSessionConfig;
+  expiresAt?: number;
+}
+
+/**
+ * Request an ephemeral client secret from our server
+ */
+export async function requestClientSecret(
+  vad?: VADSettings,
+  transcription?: ProfileTranscription
+): Promise<ClientSecret> {
+  const tokenResponse = await fetch(REALTIME_RELAY ? api.relaySession : api.webrtcSession, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      vad: vad ? {
+        threshold: vad.threshold,
+        prefixPaddingMs: vad.prefixPaddingMs,
+        silenceDurationMs: vad.silenceDurationMs
+      } : undefined,
+      // The provider is ours, not the session's
+      transcription: transcription ? {
+        model: transcription.model || undefined,
+        language: transcription.language,
+        prompt: transcription.prompt,
+        noiseReduction: transcription.noiseReduction,
+        turnDetection: transcription.turnDetection
+      } : undefined
+    })
+  });
+
+  if (!tokenResponse.ok) {
+    const errorData = await tokenResponse.json().catch(() => ({}));
+    throw new Error(errorData.message || errorData.error || 'Failed to get ephemeral token');
+  }
+
+  const tokenData = await tokenResponse.json();
+  if (!tokenData.clientSecret) {
+    throw new Error('No client secret in token response');
+  }
+
+  return tokenData as ClientSecret;
+}
+
+/**
+ * Open the transcription WebSocket and resolve once the session is created
+ */
+export async function openTranscriptionSocket(clientSecret: string): Promise<WebSocket> {
+  // Connect using subprotocols for authentication
+  // NOTE: For GA API, we must NOT include 'openai-beta.realtime-v1' header
+  // That header is only for beta API and causes version mismatch with GA client secrets
+  const ws = new WebSocket(REALTIME_TRANSCRIPTION_URL, [
+    'realtime',
+    `openai-insecure-api-key.${clientSecret}`
+  ]);
+
+  // Wait for WebSocket to open AND session to be created
+  await new Promise<void>((resolve, reject) => {
+    const timeout = setTimeout(() => {
+      reject(new Error('WebSocket connection timeout'));
+    }, 15000); // Increased timeout to allow for session creation
+
+    let wsOpened = false;
+
+    ws.onopen = () => {
+      console.log('[WebSocket] WebSocket connected, waiting for transcription_session.created...');
+      wsOpened = true;
+    };
+
+    ws.onmessage = (e) => {
+      try {
+        const event = JSON.parse(e.data);
+        console.log('[WebSocket] Setup event:', event.type);
+
+        if (isSessionCreatedEvent(event)) {
+          clearTimeout(timeout);
+          console.log('[WebSocket] ✅ Session ready! Config:', {
+            id: event.session?.id,
+            input_audio_format: event.session?.input_audio_format,
+            model: event.session?.input_audio_transcription?.model,
+            turn_detection: event.session?.turn_detection?.type
+          });
+          resolve();
+        } else if (event.type === 'error') {
+          clearTimeout(timeout);
+          console.error('[WebSocket] Session error:', event.error);
+          reject(new Error(event.error?.message || 'Session creation failed'));
+        }
+      } catch (err) {
+        console.warn('[WebSocket] Failed to parse setup event:', e.data);
+      }
+    };
+
+    ws.onerror = (err) => {
+      clearTimeout(timeout);
+      console.error('[WebSocket] Connection error:', err);
+      reject(new Error('WebSocket connection failed'));
+    };
+
+    ws.onclose = (e) => {
+      if (!wsOpened) {
+        clearTimeout(timeout);
+        reject(new Error(`WebSocket closed before opening: ${e.code} ${e.reason}`));
+      }
+    };
+  });
+
+  return ws;
+}
+
+/**
+ * GA API sends 'session.created', beta API sends 'transcription_session.created'
+ */
+export function isSessionCreatedEvent(event: { type?: string }): boolean {
+  return event.type === 'transcription_session.created' || event.type === 'session.created';
+}
+
+/**
+ * session.update that finalizes the transcription config
+ * GA workflow requires this for transcription events to be received
+ */
+export function createSessionUpdateEvent(config?: TranscriptionSessionConfig) {
+  // Repeat the session's own settings; the model cannot change after creation
+  const language = config ? config.language : 'en';
+  return {
+    type: 'session.update',
+    session: {
+      audio: {
+        input: {
+          transcription: {
+            model: config?.model ?? DEFAULT_TRANSCRIPTION_MODEL,
+            ...(language ? { language } : {}),
+            ...(config ? { prompt: config.prompt } : {})
+          }
+        }
+      }
+    }
+  };
+}
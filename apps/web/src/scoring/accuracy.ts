@@ -0,0 +1,123 @@
+/**
+ * Deterministic accuracy scoring
+ *
+ * Aligns the normalized transcript against the expected answer and each of
+ * its variants word-by-word (Levenshtein over tokens), then reports WER and
+ * the edit breakdown for the best-matching reference. Runs entirely in the
+ * browser so it can be compared against the LLM score or used on its own
+ * when the evaluator is unavailable.
+ */
+
+import type { AccuracyAlignment, AlignmentOp } from '../types';
+
+interface Alignment {
+  operations: AlignmentOp[];
+  hits: number;
+  substitutions: number;
+  deletions: number;
+  insertions: number;
+}
+
+// Digits, or number words when the profile leaves them unconverted; shared with the word diff display
+const NUMBER_TOKEN = /\d|^(zero|one|two|three|four|five|six|seven|eight|nine|niner|ten|hundred|thousand|decimal)$/;
+
+export const isNumberToken = (word: string) => NUMBER_TOKEN.test(word);
+
+function tokenize(text: string): string[] {
+  return text.split(/\s+/).filter(w => w.length > 0);
+}
+
+/**
+ * Word-level alignment between a reference and a hypothesis
+ * Returns the minimal edit sequence (substitutions, deletions, insertions)
+ */
+export function alignWords(reference: string, hypothesis: string): Alignment {
+  const ref = tokenize(reference);
+  const hyp = tokenize(hypothesis);
+  const rows = ref.length + 1;
+  const cols = hyp.length + 1;
+
+  // cost[i][j] = edit distance between ref[0..i) and hyp[0..j)
+  const cost: number[][] = Array.from({ length: rows }, () => new Array<number>(cols).fill(0));
+  for (let i = 0; i < rows; i++) cost[i][0] = i;
+  for (let j = 0; j < cols; j++) cost[0][j] = j;
+
+  for (let i = 1; i < rows; i++) {
+    for (let j = 1; j < cols; j++) {
+      const diagonal = cost[i - 1][j - 1] + (ref[i - 1] === hyp[j - 1] ? 0 : 1);
+      cost[i][j] = Math.min(diagonal, cost[i - 1][j] + 1, cost[i][j - 1] + 1);
+    }
+  }
+
+  // Backtrace - prefer match/substitution, then deletion, then insertion.
+  // On a tie, a number is not paired with a word, so "runway 27" vs "runway 29
+  // please" shows 27 -> 29 plus an extra word (same edit count either way).
+  const operations: AlignmentOp[] = [];
+  let hits = 0, substitutions = 0, deletions = 0, insertions = 0;
+  let i = ref.length;
+  let j = hyp.length;
+
+  while (i > 0 || j > 0) {
+    const diagonal = i > 0 && j > 0 && cost[i][j] === cost[i - 1][j - 1] + (ref[i - 1] === hyp[j - 1] ? 0 : 1);
+    const numberVsWord = diagonal && isNumberToken(ref[i - 1]) !== isNumberToken(hyp[j - 1]);
+    const insertWord = numberVsWord && !isNumberToken(hyp[j - 1]) && cost[i][j] === cost[i][j - 1] + 1;
+    const deleteWord = numberVsWord && !isNumberToken(ref[i - 1]) && cost[i][j] === cost[i - 1][j] + 1;
+
+    if (diagonal && !insertWord && !deleteWord) {
+      if (ref[i - 1] === hyp[j - 1]) {
+        operations.push({ type: 'match', expected: ref[i - 1], actual: hyp[j - 1] });
+        hits++;
+      } else {
+        operations.push({ type: 'substitution', expected: ref[i - 1], actual: hyp[j - 1] });
+        substitutions++;
+      }
+      i--;
+      j--;
+    } else if (!insertWord && i > 0 && cost[i][j] === cost[i - 1][j] + 1) {
+      operations.push({ type: 'deletion', expected: ref[i - 1] });
+      deletions++;
+      i--;
+    } else {
+      operations.push({ type: 'insertion', actual: hyp[j - 1] });
+      insertions++;
+      j--;
+    }
+  }
+
+  operations.reverse();
+  return { operations, hits, substitutions, deletions, insertions };
+}
+
+/**
+ * Score a normalized transcript against one or more normalized references
+ * The first reference is the primary expected answer, the rest are variants.
+ * The reference with the lowest WER wins (ties go to the earlier reference).
+ */
+export function scoreAccuracy(transcriptNormalized: string, references: string[]): AccuracyAlignment {
+  let best: AccuracyAlignment | null = null;
+
+  for (let index = 0; index < references.length; index++) {
+    const reference = references[index];
+    const alignment = alignWords(reference, transcriptNormalized);
+    const referenceLength = tokenize(reference).length;
+    const errors = alignment.substitutions + alignment.deletions + alignment.insertions;
+
+    // Empty reference: any spoken word is an error
+    const wer = referenceLength > 0 ? errors / referenceLength : (errors > 0 ? 1 : 0);
+
+    if (!best || wer < best.wer) {
+      best = {
+        reference,
+        variantIndex: index - 1,
+        wer,
+        ...alignment,
+        score: Math.round(Math.max(0, 1 - wer) * 100)
+      };
+    }
+  }
+
+  if (!best) {
+    throw new Error('scoreAccuracy requires at least one reference');
+  }
+  return best;
+}
@@ -0,0 +1,45 @@
+/**
+ * Profile A/B comparison
+ *
+ * Re-scores one recorded utterance under several profiles. The transcript is
+ * reused as-is; fluency metrics are re-measured from the stored audio
+ * segmentation so each profile's pause thresholds and filler list apply.
+ */
+
+import type { Question, Profile, ScoreResult } from '../types';
+import type { SpeechSegmentation } from '../audio/silenceSegmenter';
+import { measureFluencyMetrics } from '../utils/fluencyMetrics';
+import { scoreTranscript } from './scoreTranscript';
+
+export interface RecordedUtterance {
+  transcript: string;
+  question: Question;
+  durationMs: number;
+  segmentation?: SpeechSegmentation;
+}
+
+export interface ProfileComparisonResult {
+  profileId: string;
+  result?: ScoreResult;
+  error?: string;
+}
+
+export async function scoreUnderProfiles(
+  utterance: RecordedUtterance,
+  profiles: Profile[]
+): Promise<ProfileComparisonResult[]> {
+  return Promise.all(profiles.map(async (profile): Promise<ProfileComparisonResult> => {
+    try {
+      const fluencyMetrics = measureFluencyMetrics(
+        utterance.transcript,
+        utterance.durationMs,
+        utterance.segmentation,
+        profile.fluency
+      );
+      const { result } = await scoreTranscript(utterance.transcript, utterance.question, profile, fluencyMetrics);
+      return { profileId: profile.id, result };
+    } catch (err) {
+      return { profileId: profile.id, error: err instanceof Error ? err.message : 'Scoring failed' };
+    }
+  }));
+}
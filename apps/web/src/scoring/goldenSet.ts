@@ -0,0 +1,176 @@
+/**
+ * Golden-set regression suite
+ *
+ * A golden set pairs transcripts with a question and human-assigned scores
+ * and pass/fail labels. Running it under a profile pushes every transcript
+ * through the normal scoring pipeline, then measures how far the grades are
+ * from the labels and which items moved since an earlier run, so prompt
+ * edits can be judged on more than a single recording.
+ */
+
+import type {
+  GoldenSet,
+  GoldenItem,
+  GoldenItemResult,
+  GoldenSummary,
+  GoldenRun,
+  Profile,
+  Question,
+  FluencyMetrics,
+  ScoreSection
+} from '../types';
+import { measureFluencyMetrics } from '../utils/fluencyMetrics';
+
+const SECTION_FIELDS: Record<ScoreSection, 'accuracyScore' | 'fluencyScore' | 'structureScore' | 'overallScore'> = {
+  overall: 'overallScore',
+  accuracy: 'accuracyScore',
+  fluency: 'fluencyScore',
+  structure: 'structureScore'
+};
+
+// Speaking rate assumed when an item gives no duration
+const DEFAULT_WPM = 150;
+
+/**
+ * Validate a parsed golden set against the loaded question bank
+ */
+export function validateGoldenSet(data: GoldenSet, questions: Question[]): string[] {
+  const errors: string[] = [];
+
+  if (!data || !Array.isArray(data.items)) {
+    return ['Invalid golden set: missing items array'];
+  }
+  if (data.items.length === 0) {
+    return ['Golden set is empty'];
+  }
+
+  const questionIds = new Set(questions.map(q => q.id));
+  const itemIds = new Set<string>();
+
+  data.items.forEach((item, i) => {
+    const label = item?.id ? `Item ${item.id}` : `Item at index ${i}`;
+    if (!item?.id || !item.questionId || typeof item.transcript !== 'string' || !item.expected) {
+      errors.push(`${label}: missing required fields`);
+      return;
+    }
+    if (itemIds.has(item.id)) {
+      errors.push(`${label}: duplicate id`);
+    }
+    itemIds.add(item.id);
+    if (!questionIds.has(item.questionId)) {
+      errors.push(`${label}: question ${item.questionId} is not in the loaded bank`);
+    }
+    if (typeof item.expected.passed !== 'boolean') {
+      errors.push(`${label}: expected.passed must be true or false`);
+    }
+    Object.values(SECTION_FIELDS).forEach(field => {
+      const value = item.expected[field];
+      if (value !== undefined && (typeof value !== 'number' || value < 0 || value > 100)) {
+        errors.push(`${label}: expected.${field} must be a number from 0 to 100`);
+      }
+    });
+  });
+
+  return errors;
+}
+
+/**
+ * Fluency metrics for a golden item: labelled metrics as-is, otherwise
+ * estimated from the transcript like a run without audio segmentation
+ */
+export function goldenFluencyMetrics(item: GoldenItem, profile: Profile): FluencyMetrics {
+  if (item.fluencyMetrics) {
+    return item.fluencyMetrics;
+  }
+
+  const wordCount = item.transcript.split(/\s+/).filter(Boolean).length;
+  const durationMs = item.durationMs ?? Math.round((wordCount / DEFAULT_WPM) * 60000);
+  return measureFluencyMetrics(item.transcript, durationMs, null, profile.fluency);
+}
+
+export function summarizeGoldenRun(set: GoldenSet, results: GoldenItemResult[]): GoldenSummary {
+  const itemsById = new Map(set.items.map(item => [item.id, item]));
+  const errorSums: Record<ScoreSection, { total: number; count: number }> = {
+    overall: { total: 0, count: 0 },
+    accuracy: { total: 0, count: 0 },
+    fluency: { total: 0, count: 0 },
+    structure: { total: 0, count: 0 }
+  };
+  const confusion = { truePass: 0, falsePass: 0, trueFail: 0, falseFail: 0 };
+  let scored = 0;
+  let errors = 0;
+
+  for (const result of results) {
+    const item = itemsById.get(result.itemId);
+    if (!item) continue;
+    if (!result.scores) {
+      errors++;
+      continue;
+    }
+    scored++;
+
+    for (const [section, field] of Object.entries(SECTION_FIELDS) as Array<[ScoreSection, typeof SECTION_FIELDS[ScoreSection]]>) {
+      const expected = item.expected[field];
+      if (expected !== undefined) {
+        errorSums[section].total += Math.abs(result.scores[field] - expected);
+        errorSums[section].count++;
+      }
+    }
+
+    if (item.expected.passed) {
+      if (result.scores.passed) confusion.truePass++;
+      else confusion.falseFail++;
+    } else {
+      if (result.scores.passed) confusion.falsePass++;
+      else confusion.trueFail++;
+    }
+  }
+
+  const mae = Object.fromEntries(
+    Object.entries(errorSums).map(([section, { total, count }]) => [
+      section,
+      count > 0 ? Math.round((total / count) * 10) / 10 : null
+    ])
+  ) as Record<ScoreSection, number | null>;
+
+  return {
+    scored,
+    errors,
+    mae,
+    confusion,
+    agreement: scored > 0 ? (confusion.truePass + confusion.trueFail) / scored : 0
+  };
+}
+
+export interface GoldenItemChange {
+  itemId: string;
+  deltas: Record<ScoreSection, number>; // current - baseline
+  passFlipped: boolean;
+}
+
+/**
+ * Items whose grade moved between two runs: a pass/fail flip, or any section
+ * changing by at least minDelta points. Items missing from either run are skipped.
+ */
+export function diffGoldenRuns(baseline: GoldenRun, current: GoldenRun, minDelta = 1): GoldenItemChange[] {
+  const baselineById = new Map(baseline.results.map(result => [result.itemId, result]));
+  const changes: GoldenItemChange[] = [];
+
+  for (const result of current.results) {
+    const before = baselineById.get(result.itemId)?.scores;
+    const after = result.scores;
+    if (!before || !after) continue;
+
+    const deltas = Object.fromEntries(
+      Object.entries(SECTION_FIELDS).map(([section, field]) => [section, after[field] - before[field]])
+    ) as Record<ScoreSection, number>;
+    const passFlipped = before.passed !== after.passed;
+
+    if (passFlipped || Object.values(deltas).some(delta => Math.abs(delta) >= minDelta)) {
+      changes.push({ itemId: result.itemId, deltas, passFlipped });
+    }
+  }
+
+  // Largest overall movement first
+  return changes.sort((a, b) => Math.abs(b.deltas.overall) - Math.abs(a.deltas.overall));
+}
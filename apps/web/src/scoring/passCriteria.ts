@@ -0,0 +1,47 @@
+/**
+ * Pass/fail decision against profile benchmarks
+ *
+ * A run passes only if the overall score meets passMarkOverall AND every
+ * section with a configured minimum meets it. Each miss is reported as a
+ * structured failure so the UI can say exactly why a run failed.
+ */
+
+import type { ProfileBenchmarks, ScoreSection, SectionFailure } from '../types';
+
+interface SectionScores {
+  accuracyScore: number;
+  fluencyScore: number;
+  structureScore: number;
+  overallScore: number;
+}
+
+const SECTION_KEYS: Record<Exclude<ScoreSection, 'overall'>, keyof SectionScores> = {
+  accuracy: 'accuracyScore',
+  fluency: 'fluencyScore',
+  structure: 'structureScore'
+};
+
+export function evaluatePassCriteria(
+  scores: SectionScores,
+  benchmarks: ProfileBenchmarks
+): { passed: boolean; failures: SectionFailure[] } {
+  const failures: SectionFailure[] = [];
+
+  if (scores.overallScore < benchmarks.passMarkOverall) {
+    failures.push({
+      section: 'overall',
+      score: scores.overallScore,
+      minimum: benchmarks.passMarkOverall
+    });
+  }
+
+  for (const [section, key] of Object.entries(SECTION_KEYS) as Array<[Exclude<ScoreSection, 'overall'>, keyof SectionScores]>) {
+    const minimum = benchmarks.minPerSection?.[section];
+    if (minimum === undefined) continue;
+    if (scores[key] < minimum) {
+      failures.push({ section, score: scores[key], minimum });
+    }
+  }
+
+  return { passed: failures.length === 0, failures };
+}
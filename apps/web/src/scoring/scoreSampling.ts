@@ -0,0 +1,52 @@
+/**
+ * Consistency sampling on the client
+ *
+ * The server aggregates the evaluator's own section scores, but the console
+ * replaces the LLM fluency score with the deterministic one and recomputes
+ * overall from profile weights. This reapplies both to every sample so the
+ * reported spread matches the scores actually shown.
+ */
+
+import type { ProfileWeights, ScoreSampling, ScoreStats } from '../types';
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+export function describeScores(values: number[]): ScoreStats {
+  const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+  const variance = values.length > 1
+    ? values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (values.length - 1)
+    : 0;
+  return {
+    mean: round1(mean),
+    min: Math.min(...values),
+    max: Math.max(...values),
+    stdDev: round1(Math.sqrt(variance))
+  };
+}
+
+export function adjustSampling(
+  sampling: ScoreSampling,
+  fluencyScore: number,
+  weights: ProfileWeights
+): ScoreSampling {
+  const scores = sampling.scores.map(sample => ({
+    ...sample,
+    fluencyScore,
+    overallScore: Math.round(
+      sample.accuracyScore * weights.accuracy +
+      fluencyScore * weights.fluency +
+      sample.structureScore * weights.structure
+    )
+  }));
+
+  return {
+    ...sampling,
+    scores,
+    stats: {
+      accuracy: sampling.stats.accuracy,
+      fluency: describeScores(scores.map(s => s.fluencyScore)),
+      structure: sampling.stats.structure,
+      overall: describeScores(scores.map(s => s.overallScore))
+    }
+  };
+}
@@ -0,0 +1,372 @@
+/**
+ * Transcript scoring pipeline
+ *
+ * Shared by live sessions and batch replay so both produce identical scores:
+ * profile normalization, local accuracy alignment and structure analysis,
+ * the LLM evaluator call (with offline fallback), deterministic fluency
+ * scoring, profile-weighted overall score and pass/fail.
+ */
+
+import type {
+  Question,
+  Profile,
+  ScoreResult,
+  TestRun,
+  RunTelemetry,
+  FluencyMetrics,
+  StructureAnalysis,
+  AccuracyAlignment,
+  EvaluatorScoreResponse,
+  TokenUsage,
+  EvaluatorValidation,
+  EvaluatorUsed,
+  EvaluatorProviderId,
+  ProfileEvaluator
+} from '../types';
+import { normalizeForProfile } from '../utils/textNormalization';
+import { calculateFluencyScore } from '../utils/fluencyMetrics';
+import { scoreAccuracy } from './accuracy';
+import { analyzeStructure } from './structureAnalyzer';
+import { evaluatePassCriteria } from './passCriteria';
+import { adjustSampling } from './scoreSampling';
+import { describePrompt } from '../utils/promptVersions';
+import { api } from '../config';
+
+export interface ScoreRequest {
+  expectedAnswer: {
+    raw: string;
+    normalized: string;
+    variants: Array<{ raw: string; normalized: string }>;
+  };
+  transcript: {
+    raw: string;
+    normalized: string;
+  };
+  fluencyMetrics: FluencyMetrics;
+  structureRequirements: {
+    requireReceiver: boolean;
+    requireSender: boolean;
+    requireLocation: boolean;
+    requireIntent: boolean;
+    closingOptional: boolean;
+  };
+  structureAnalysis: Pick<StructureAnalysis, 'findings' | 'orderIssues' | 'score'>;
+  profileParameters: {
+    weights: { accuracy: number; fluency: number; structure: number };
+    fluency: {
+      fillerPenaltyPerWord: number;
+      fillerPenaltyCap: number;
+      pausePenalty: number;
+      longPausePenalty: number;
+      pausePenaltyCap: number;
+    };
+  };
+  question: {
+    id: string;
+    scenarioPrompt: string;
+    tags?: string[];
+    difficulty?: string;
+  };
+  scoringPrompt: string;
+  explanationPrompt: string;
+  systemPromptTemplate?: string;
+  userPromptTemplate?: string;
+  provider?: EvaluatorProviderId;
+  model?: string;
+  fallback?: ProfileEvaluator['fallback'];
+  temperature?: number;
+  maxAttempts?: number;
+  samples?: number;
+}
+
+export interface ScoredTranscript {
+  result: ScoreResult;
+  evaluatorLatencyMs?: number; // Undefined when the evaluator was unavailable
+  usage?: TokenUsage;          // Evaluator token usage, for cost accounting
+  validation?: EvaluatorValidation; // Also set when every attempt failed validation (local fallback)
+  evaluator?: EvaluatorUsed;        // Provider and model that answered; may be the profile's fallback
+}
+
+/**
+ * Local word alignment of a transcript against the expected answer and its
+ * variants, normalized as buildScoreRequest does (used by TranscriptDisplay
+ * before the score arrives)
+ */
+export function alignTranscript(transcript: string, question: Question, profile: Profile): AccuracyAlignment {
+  const transcriptNormalized = normalizeForProfile(transcript, profile, { removeFillers: true });
+  const references = [question.expectedAnswer.text, ...(question.expectedAnswer.variants || [])]
+    .map(reference => normalizeForProfile(reference, profile));
+  return scoreAccuracy(transcriptNormalized, references);
+}
+
+/**
+ * Build the evaluator request for a transcript, with the local alignment and
+ * structure analysis it carries (also used by the Prompts page preview)
+ */
+export function buildScoreRequest(
+  transcript: string,
+  question: Question,
+  profile: Profile,
+  fluencyMetrics: FluencyMetrics
+): { payload: ScoreRequest; localAccuracy: AccuracyAlignment; localStructure: StructureAnalysis } {
+  // Build normalized versions
+  const transcriptNormalized = normalizeForProfile(transcript, profile, { removeFillers: true });
+  const expectedNormalized = normalizeForProfile(question.expectedAnswer.text, profile);
+
+  // Variants are normalized the same way as the expected answer
+  const variants = question.expectedAnswer.variants || [];
+  const variantsNormalized = variants.map(variant => normalizeForProfile(variant, profile));
+
+  // Deterministic word alignment against the expected answer and its variants
+  const localAccuracy = scoreAccuracy(transcriptNormalized, [expectedNormalized, ...variantsNormalized]);
+
+  // Get structure requirements (use defaults if not specified)
+  const structureRequirements = question.expectedAnswer.structure || {
+    requireReceiver: true,
+    requireSender: true,
+    requireLocation: false,
+    requireIntent: true,
+    closingOptional: true
+  };
+
+  // Rule-based structure findings; callsigns are normalized like the transcript
+  const callsigns = question.expectedAnswer.callsigns;
+  const localStructure = analyzeStructure(transcriptNormalized, structureRequirements, {
+    receiver: callsigns?.receiver?.map(callsign => normalizeForProfile(callsign, profile)),
+    sender: callsigns?.sender?.map(callsign => normalizeForProfile(callsign, profile))
+  });
+
+  // Build the request payload
+  const payload: ScoreRequest = {
+    expectedAnswer: {
+      raw: question.expectedAnswer.text,
+      normalized: expectedNormalized,
+      variants: variants.map((raw, i) => ({ raw, normalized: variantsNormalized[i] }))
+    },
+    transcript: {
+      raw: transcript,
+      normalized: transcriptNormalized
+    },
+    fluencyMetrics,
+    structureRequirements,
+    structureAnalysis: {
+      findings: localStructure.findings,
+      orderIssues: localStructure.orderIssues,
+      score: localStructure.score
+    },
+    profileParameters: {
+      weights: profile.weights,
+      fluency: {
+        fillerPenaltyPerWord: profile.fluency.fillerPenaltyPerWord,
+        fillerPenaltyCap: profile.fluency.fillerPenaltyCap,
+        pausePenalty: profile.fluency.pausePenalty,
+        longPausePenalty: profile.fluency.longPausePenalty,
+        pausePenaltyCap: 20 // Default cap
+      }
+    },
+    question: {
+      id: question.id,
+      scenarioPrompt: question.scenarioPrompt,
+      tags: question.tags,
+      difficulty: question.difficulty
+    },
+    scoringPrompt: profile.evaluator.scoringPromptTemplate,
+    explanationPrompt: profile.evaluator.explanationPromptTemplate,
+    systemPromptTemplate: profile.evaluator.systemPromptTemplate || undefined,
+    userPromptTemplate: profile.evaluator.userPromptTemplate || undefined,
+    provider: profile.evaluator.provider,
+    model: profile.evaluator.model || undefined,
+    fallback: profile.evaluator.fallback,
+    temperature: profile.evaluator.temperature,
+    maxAttempts: profile.evaluator.maxAttempts,
+    samples: profile.evaluator.samples
+  };
+
+  return { payload, localAccuracy, localStructure };
+}
+
+/**
+ * Score a final transcript against a question under a profile
+ */
+export async function scoreTranscript(
+  transcript: string,
+  question: Question,
+  profile: Profile,
+  fluencyMetrics: FluencyMetrics
+): Promise<ScoredTranscript> {
+  const evalStart = Date.now();
+  const { payload: requestPayload, localAccuracy, localStructure } = buildScoreRequest(
+    transcript,
+    question,
+    profile,
+    fluencyMetrics
+  );
+
+  // Ask the LLM evaluator; fall back to local alignment and structure analysis if it is unreachable
+  let result: ScoreResult;
+  let scoringSource: 'evaluator' | 'local' = 'evaluator';
+  let evaluatorLatencyMs: number | undefined;
+  let usage: TokenUsage | undefined;
+  let validation: EvaluatorValidation | undefined;
+  let evaluator: EvaluatorUsed | undefined;
+  try {
+    const response = await fetch(api.evaluatorScore, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(requestPayload)
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      // Output that never passed validation was still billed
+      validation = errorData.validation;
+      usage = errorData.usage;
+      evaluator = errorData.evaluator;
+      throw new Error(errorData.error || 'Failed to score transcript');
+    }
+
+    // Usage, validation and latency are run telemetry, not part of the score
+    const {
+      usage: evaluatorUsage,
+      validation: evaluatorValidation,
+      evaluator: evaluatorUsed,
+      latency_ms: _latencyMs,
+      ...scores
+    } = await response.json() as EvaluatorScoreResponse;
+    result = scores;
+    usage = evaluatorUsage;
+    validation = evaluatorValidation;
+    evaluator = evaluatorUsed;
+    evaluatorLatencyMs = Date.now() - evalStart;
+  } catch (err) {
+    // The run records why it was graded offline (first accuracy reason)
+    const fallbackReason = `Evaluator unavailable (${err instanceof Error ? err.message : 'unknown error'}); graded with the local alignment`;
+    scoringSource = 'local';
+    result = {
+      accuracyScore: localAccuracy.score,
+      fluencyScore: 0,
+      structureScore: localStructure.score,
+      overallScore: 0,
+      reasons: {
+        accuracy: [fallbackReason, `Local alignment: WER ${(localAccuracy.wer * 100).toFixed(1)}% (${localAccuracy.substitutions} substituted, ${localAccuracy.deletions} missing, ${localAccuracy.insertions} extra)`],
+        fluency: [],
+        structure: localStructure.reasons
+      },
+      passed: false,
+      matchedVariant: localAccuracy.variantIndex
+    };
+  }
+
+  // Calculate deterministic fluency score using profile parameters
+  const calculatedFluency = calculateFluencyScore(fluencyMetrics, {
+    fillerPenaltyPerWord: profile.fluency.fillerPenaltyPerWord,
+    fillerPenaltyCap: profile.fluency.fillerPenaltyCap,
+    pausePenalty: profile.fluency.pausePenalty,
+    longPausePenalty: profile.fluency.longPausePenalty,
+    pausePenaltyCap: 20 // Default cap
+  });
+
+  // Use the calculated fluency score instead of LLM's estimate
+  // This makes the fluency penalties in Parameters actually functional
+  const adjustedFluencyScore = calculatedFluency.score;
+
+  // Recalculate overall score using profile weights with the adjusted fluency
+  const adjustedOverallScore = Math.round(
+    result.accuracyScore * profile.weights.accuracy +
+    adjustedFluencyScore * profile.weights.fluency +
+    result.structureScore * profile.weights.structure
+  );
+
+  // Determine pass/fail based on profile benchmarks (overall pass mark + per-section minimums)
+  const { passed, failures } = evaluatePassCriteria(
+    {
+      accuracyScore: result.accuracyScore,
+      fluencyScore: adjustedFluencyScore,
+      structureScore: result.structureScore,
+      overallScore: adjustedOverallScore
+    },
+    profile.benchmarks
+  );
+
+  // Add fluency deductions to the reasons
+  const adjustedReasons = {
+    ...result.reasons,
+    fluency: calculatedFluency.deductions.length > 0
+      ? calculatedFluency.deductions
+      : result.reasons.fluency
+  };
+
+  return {
+    result: {
+      ...result,
+      fluencyScore: adjustedFluencyScore,
+      overallScore: adjustedOverallScore,
+      reasons: adjustedReasons,
+      passed,
+      failures,
+      localAccuracy,
+      localStructure,
+      scoringSource,
+      ...(result.sampling ? { sampling: adjustSampling(result.sampling, adjustedFluencyScore, profile.weights) } : {})
+    },
+    evaluatorLatencyMs,
+    usage,
+    validation,
+    evaluator
+  };
+}
+
+
+/**
+ * Random v4 UUID; crypto.randomUUID only exists in secure contexts, and the
+ * console is also served over plain http on the LAN
+ */
+function randomId(): string {
+  if (typeof crypto.randomUUID === 'function') return crypto.randomUUID();
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  bytes[6] = (bytes[6] & 0x0f) | 0x40; // Version 4
+  bytes[8] = (bytes[8] & 0x3f) | 0x80; // RFC 4122 variant
+  const hex = Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
+
+/**
+ * Build the TestRun record for a scored transcript
+ */
+export function createTestRun(params: {
+  transcript: string;
+  question: Question;
+  profile: Profile;
+  fluencyMetrics: FluencyMetrics;
+  score: ScoreResult;
+  telemetry: RunTelemetry;
+  status?: TestRun['status'];
+  source?: TestRun['source'];
+  audioFileName?: string;
+}): TestRun {
+  const { transcript, question, profile } = params;
+
+  return {
+    // Primary key in the shared run store, so it must be unique across machines
+    id: `run-${randomId()}`,
+    questionId: question.id,
+    timestamp: new Date().toISOString(),
+    transcript: {
+      raw: transcript,
+      normalized: normalizeForProfile(transcript, profile, { removeFillers: true })
+    },
+    expectedAnswer: {
+      raw: question.expectedAnswer.text,
+      normalized: normalizeForProfile(question.expectedAnswer.text, profile),
+      variants: (question.expectedAnswer.variants || []).map(variant => normalizeForProfile(variant, profile))
+    },
+    fluencyMetrics: params.fluencyMetrics,
+    score: params.score,
+    telemetry: params.telemetry,
+    profileId: profile.id,
+    status: params.status ?? 'success',
+    source: params.source ?? 'live',
+    prompt: describePrompt(profile.evaluator),
+    ...(params.audioFileName ? { audioFileName: params.audioFileName } : {})
+  };
+}
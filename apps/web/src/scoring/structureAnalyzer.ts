@@ -0,0 +1,211 @@
+/**
+ * Rule-based structure analysis
+ *
+ * Parses the anatomy of a radio call from the normalized transcript:
+ * receiver callsign, sender callsign, location phrase, intent and closing
+ * ("over" / "out"). Each component becomes a finding with the matched text and
+ * word position, the expected order (receiver -> sender -> message -> closing)
+ * is checked, and a deterministic structure score is derived from the
+ * required components. Findings are sent to the evaluator and shown next to
+ * the LLM structure score.
+ */
+
+import type {
+  QuestionStructure,
+  StructureAnalysis,
+  StructureComponent,
+  StructureFinding
+} from '../types';
+
+// Receivers assumed when a question does not declare its own
+const DEFAULT_RECEIVERS = [
+  'atc', 'tower', 'ground', 'approach', 'control', 'radar', 'departure', 'director'
+];
+
+// Location phrases, matched against the normalized (lowercase, unpunctuated) transcript
+const LOCATION_PATTERNS: RegExp[] = [
+  /\brunway \S+/,
+  /\btaxiway \S+/,
+  /\bholding point(?: \S+)?/,
+  /\b(?:flight level|fl) \S+/,
+  /\b\S+ feet\b/,
+  /\bover the (?:air)?field\b/,
+  /\boverhead(?: \S+)?/,
+  /\b(?:downwind|crosswind|base|final)\b/,
+  /\b(?:apron|stand|gate|hangar|ramp)(?: \S+)?/,
+  /\b\S+ (?:miles|nm|nautical miles)\b/
+];
+
+// Verbs and set phrases that carry the intent of the call
+const INTENT_PHRASES = [
+  'request', 'requesting', 'ready', 'hold', 'holding', 'cleared', 'taxi', 'taxiing',
+  'descending', 'climbing', 'maintaining', 'say again', 'vacated', 'switching',
+  'go around', 'going around', 'pan-pan', 'pan pan', 'mayday', 'roger', 'wilco',
+  'affirm', 'negative', 'confirm', 'report', 'approaching', 'entering', 'leaving',
+  'passing', 'landing', 'departing', 'airborne', 'established', 'returning', 'unable'
+];
+
+const CLOSING_WORDS = ['over', 'out'];
+
+// Deduction per component found out of order
+const ORDER_PENALTY = 10;
+
+const COMPONENT_LABELS: Record<StructureComponent, string> = {
+  receiver: 'Receiver callsign',
+  sender: 'Sender callsign',
+  location: 'Location',
+  intent: 'Intent',
+  closing: 'Closing'
+};
+
+interface Match {
+  text: string;
+  position: number;
+}
+
+function tokenize(text: string): string[] {
+  return text.split(/\s+/).filter(w => w.length > 0);
+}
+
+/**
+ * Earliest whole-word occurrence of any phrase (phrases must already be normalized)
+ */
+function findPhrase(words: string[], phrases: string[], skip: Set<number>): Match | null {
+  let best: Match | null = null;
+
+  for (const phrase of phrases) {
+    const target = tokenize(phrase);
+    if (target.length === 0) continue;
+
+    for (let i = 0; i + target.length <= words.length; i++) {
+      if (best && i >= best.position) break;
+      if (target.every((w, k) => words[i + k] === w && !skip.has(i + k))) {
+        best = { text: target.join(' '), position: i };
+        break;
+      }
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Earliest regex match, reported as a word position
+ */
+function findPattern(words: string[], patterns: RegExp[], skip: Set<number>): Match | null {
+  const text = words.join(' ');
+  let best: Match | null = null;
+
+  for (const pattern of patterns) {
+    const match = pattern.exec(text);
+    if (!match) continue;
+
+    const position = tokenize(text.slice(0, match.index)).length;
+    const length = tokenize(match[0]).length;
+    const overlaps = Array.from({ length }, (_, k) => position + k).some(i => skip.has(i));
+    if (!overlaps && (!best || position < best.position)) {
+      best = { text: match[0], position };
+    }
+  }
+
+  return best;
+}
+
+function claim(skip: Set<number>, match: Match | null) {
+  if (!match) return;
+  tokenize(match.text).forEach((_, k) => skip.add(match.position + k));
+}
+
+function toFinding(
+  component: StructureComponent,
+  required: boolean,
+  checked: boolean,
+  match: Match | null
+): StructureFinding {
+  return {
+    component,
+    required,
+    checked,
+    found: match !== null,
+    ...(match ? { text: match.text, position: match.position } : {})
+  };
+}
+
+/**
+ * Analyze the structure of a normalized transcript
+ * Callsigns must be normalized the same way as the transcript.
+ */
+export function analyzeStructure(
+  transcriptNormalized: string,
+  requirements: QuestionStructure,
+  callsigns: { receiver?: string[]; sender?: string[] } = {}
+): StructureAnalysis {
+  const words = tokenize(transcriptNormalized);
+  const claimed = new Set<number>();
+
+  // Closing is only a closing when it ends the call ("over the field" is a location)
+  const lastWord = words[words.length - 1];
+  const closing: Match | null = lastWord !== undefined && CLOSING_WORDS.includes(lastWord)
+    ? { text: lastWord, position: words.length - 1 }
+    : null;
+  claim(claimed, closing);
+
+  const receivers = callsigns.receiver?.length ? callsigns.receiver : DEFAULT_RECEIVERS;
+  const receiver = findPhrase(words, receivers, claimed);
+  claim(claimed, receiver);
+
+  // Without a declared sender there is no way to tell a callsign from any other words
+  const senderChecked = (callsigns.sender?.length ?? 0) > 0;
+  const sender = senderChecked ? findPhrase(words, callsigns.sender ?? [], claimed) : null;
+  claim(claimed, sender);
+
+  const location = findPattern(words, LOCATION_PATTERNS, claimed);
+  claim(claimed, location);
+
+  const intent = findPhrase(words, INTENT_PHRASES, claimed);
+
+  const findings: StructureFinding[] = [
+    toFinding('receiver', requirements.requireReceiver, true, receiver),
+    toFinding('sender', requirements.requireSender, senderChecked, sender),
+    toFinding('location', requirements.requireLocation, true, location),
+    toFinding('intent', requirements.requireIntent, true, intent),
+    toFinding('closing', !requirements.closingOptional, true, closing)
+  ];
+
+  // Expected anatomy: receiver -> sender -> message (location / intent) -> closing
+  const orderIssues: string[] = [];
+  if (receiver && sender && sender.position < receiver.position) {
+    orderIssues.push('sender before receiver');
+  }
+  const lastCallsign = [receiver, sender]
+    .filter((m): m is Match => m !== null)
+    .reduce<number>((max, m) => Math.max(max, m.position), -1);
+  for (const [name, match] of [['location', location], ['intent', intent]] as const) {
+    if (match && match.position < lastCallsign) {
+      orderIssues.push(`${name} before callsigns`);
+    }
+  }
+
+  // Score: share of required (and checkable) components present, minus order penalties
+  const scored = findings.filter(f => f.required && f.checked);
+  const foundShare = scored.length > 0
+    ? scored.filter(f => f.found).length / scored.length
+    : 1;
+  const score = Math.max(0, Math.round(foundShare * 100) - orderIssues.length * ORDER_PENALTY);
+
+  const reasons: string[] = [];
+  for (const finding of findings) {
+    if (!finding.required) continue;
+    const label = COMPONENT_LABELS[finding.component];
+    if (!finding.checked) {
+      reasons.push(`${label} not checked - no expected callsign declared`);
+    } else if (!finding.found) {
+      reasons.push(finding.component === 'closing'
+        ? `${label} missing - end with "over" or "out"`
+        : `${label} missing`);
+    }
+  }
+  orderIssues.forEach(issue => reasons.push(`Out of order: ${issue}`));
+
+  return { findings, orderIssues, score, reasons };
+}
@@ -0,0 +1,66 @@
+/**
+ * Run audio storage (IndexedDB)
+ *
+ * Keeps the captured 24kHz PCM16 audio of each run, keyed by TestRun.audioId.
+ * Audio is too large for localStorage, where runs themselves live.
+ */
+
+const DB_NAME = 'stt-console-audio';
+const DB_VERSION = 1;
+const STORE_NAME = 'recordings';
+
+export interface StoredRecording {
+  id: string;
+  pcm: Uint8Array;   // PCM16, little-endian, mono
+  sampleRate: number;
+  createdAt: string;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error ?? new Error('Failed to open audio store'));
+      };
+    });
+  }
+  return dbPromise;
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest
+): Promise<T> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = operation(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result as T);
+    request.onerror = () => reject(request.error ?? new Error('Audio store request failed'));
+  });
+}
+
+export async function saveRecording(id: string, pcm: Uint8Array, sampleRate: number): Promise<void> {
+  const recording: StoredRecording = { id, pcm, sampleRate, createdAt: new Date().toISOString() };
+  await withStore('readwrite', store => store.put(recording));
+}
+
+export async function getRecording(id: string): Promise<StoredRecording | null> {
+  const recording = await withStore<StoredRecording | undefined>('readonly', store => store.get(id));
+  return recording ?? null;
+}
+
+export async function deleteRecording(id: string): Promise<void> {
+  await withStore('readwrite', store => store.delete(id));
+}
+
+export async function clearRecordings(): Promise<void> {
+  await withStore('readwrite', store => store.clear());
+}
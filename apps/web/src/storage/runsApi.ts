@@ -0,0 +1,73 @@
+/**
+ * Shared run history (server-side SQLite via /api/runs)
+ *
+ * localStorage stays the write-ahead copy on each machine: runs are saved
+ * there first and pushed here; runs that failed to save, and (once) history
+ * recorded before the server store existed, are uploaded with syncRuns.
+ */
+
+import type { TestRun, RunQuery, RunPage, RunSyncResult } from '../types';
+import { api } from '../config';
+
+// Server accepts at most 100 runs per sync request
+const SYNC_BATCH_SIZE = 100;
+
+async function request<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...init?.headers }
+  });
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error || `Run store request failed: ${response.status}`);
+  }
+  return response.status === 204 ? undefined as T : response.json();
+}
+
+export function fetchRuns(query: RunQuery = {}): Promise<RunPage> {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(query)) {
+    if (value !== undefined && value !== '') params.set(key, String(value));
+  }
+  const search = params.toString();
+  return request<RunPage>(search ? `${api.runs}?${search}` : api.runs);
+}
+
+/**
+ * Every page matching the query, newest first, up to maxRuns
+ */
+export async function fetchAllRuns(query: RunQuery = {}, maxRuns = 5000): Promise<TestRun[]> {
+  const runs: TestRun[] = [];
+  const limit = 500;
+  for (let offset = 0; offset < maxRuns; offset += limit) {
+    const page = await fetchRuns({ ...query, limit, offset });
+    runs.push(...page.runs);
+    if (page.runs.length < limit || runs.length >= page.total) break;
+  }
+  return runs.slice(0, maxRuns);
+}
+
+export function saveRun(run: TestRun): Promise<TestRun> {
+  return request<TestRun>(api.runs, { method: 'POST', body: JSON.stringify(run) });
+}
+
+export function deleteRun(id: string): Promise<void> {
+  return request<void>(`${api.runs}/${encodeURIComponent(id)}`, { method: 'DELETE' });
+}
+
+/**
+ * Upload local history in batches; runs the server already has are skipped
+ */
+export async function syncRuns(runs: TestRun[]): Promise<RunSyncResult> {
+  const total: RunSyncResult = { inserted: 0, skipped: 0, rejected: [] };
+  for (let i = 0; i < runs.length; i += SYNC_BATCH_SIZE) {
+    const result = await request<RunSyncResult>(`${api.runs}/sync`, {
+      method: 'POST',
+      body: JSON.stringify({ runs: runs.slice(i, i + SYNC_BATCH_SIZE) })
+    });
+    total.inserted += result.inserted;
+    total.skipped += result.skipped;
+    total.rejected.push(...result.rejected);
+  }
+  return total;
+}
@@ -0,0 +1,105 @@
+/**
+ * Record-then-transcribe through the server's file providers
+ *
+ * Counterpart of the Realtime socket for providers that only accept a
+ * finished recording (OpenAI transcription API, local Whisper). Capture and
+ * silence segmentation still happen in the browser, so pause and fluency
+ * metrics are measured the same way whichever engine produced the text.
+ */
+
+import type { Profile, ProfileTranscription, SttProviderId } from '../types';
+import { api } from '../config';
+import { encodeWav } from '../audio/wav';
+import { createSilenceSegmenter } from '../audio/silenceSegmenter';
+import { floatToPcm16, calculateRms, TARGET_SAMPLE_RATE } from '../realtime/pcm16';
+import { transcribeSamples, CHUNK_SAMPLES } from '../realtime/replayTranscription';
+import type { ReplayTranscription } from '../realtime/replayTranscription';
+
+export const DEFAULT_STT_PROVIDER: SttProviderId = 'openai-realtime';
+
+export interface FileTranscriptionResponse {
+  transcript: string;
+  provider: SttProviderId;
+  model: string;
+  latencyMs: number;
+}
+
+// Everything except the Realtime provider transcribes a finished recording
+export function isFileProvider(provider: SttProviderId | undefined): boolean {
+  return (provider ?? DEFAULT_STT_PROVIDER) !== 'openai-realtime';
+}
+
+/**
+ * POST a PCM16 recording (24kHz mono) to the server as WAV
+ */
+export async function transcribeRecording(
+  pcm: Uint8Array,
+  transcription: ProfileTranscription
+): Promise<FileTranscriptionResponse> {
+  const params = new URLSearchParams({ provider: transcription.provider ?? 'openai-file' });
+  if (transcription.model) params.set('model', transcription.model);
+  // English unless the profile asks for another language or auto-detection ('')
+  const language = transcription.language ?? 'en';
+  if (language) params.set('language', language);
+  if (transcription.prompt) params.set('prompt', transcription.prompt);
+
+  const response = await fetch(`${api.sttTranscribe}?${params}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'audio/wav' },
+    body: encodeWav(pcm, TARGET_SAMPLE_RATE)
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.details || errorData.message || errorData.error || `Transcription failed (HTTP ${response.status})`);
+  }
+
+  return response.json();
+}
+
+/**
+ * Batch replay with a file provider, in the same shape as transcribeSamples.
+ * There is no connection or streaming phase, so both text timings are the
+ * request round trip.
+ */
+async function transcribeSamplesAsFile(
+  samples: Float32Array,
+  transcription: ProfileTranscription
+): Promise<ReplayTranscription> {
+  const startTime = Date.now();
+
+  // Same chunking as the Realtime replay so pauses are segmented identically
+  const segmenter = createSilenceSegmenter();
+  for (let offset = 0; offset < samples.length; offset += CHUNK_SAMPLES) {
+    const chunk = samples.subarray(offset, Math.min(offset + CHUNK_SAMPLES, samples.length));
+    segmenter.push(calculateRms(chunk), (chunk.length / TARGET_SAMPLE_RATE) * 1000);
+  }
+
+  const result = await transcribeRecording(floatToPcm16(samples), transcription);
+  const elapsedMs = Date.now() - startTime;
+
+  return {
+    transcript: result.transcript.trim(),
+    segmentation: segmenter.finish(),
+    durationMs: Math.round((samples.length / TARGET_SAMPLE_RATE) * 1000),
+    transcriptionModel: result.model,
+    connectTimeMs: 0,
+    timeToFirstTextMs: elapsedMs,
+    timeToFinalMs: elapsedMs,
+    timedOut: false
+  };
+}
+
+/**
+ * Transcribe decoded audio with the profile's transcription provider
+ * (settings can be overridden, e.g. with a vocabulary prompt added)
+ */
+export function transcribeSamplesForProfile(
+  samples: Float32Array,
+  profile: Profile,
+  transcription: ProfileTranscription | undefined = profile.transcription
+): Promise<ReplayTranscription> {
+  return transcription && isFileProvider(transcription.provider)
+    ? transcribeSamplesAsFile(samples, transcription)
+    : transcribeSamples(samples, { vad: profile.vad, transcription });
+}
@@ -7,10 +7,17 @@ export interface QuestionStructure {
   closingOptional: boolean;
 }
 
+// Callsigns the structure analyzer looks for; each entry lists accepted spoken forms
+export interface ExpectedCallsigns {
+  receiver?: string[]; // e.g. ["ATC", "Tower"]
+  sender?: string[];   // e.g. ["Bowser One"]
+}
+
 export interface ExpectedAnswer {
   text: string;
   variants?: string[];
   structure?: QuestionStructure;
+  callsigns?: ExpectedCallsigns;
 }
 
 export interface Question {
@@ -20,6 +27,14 @@ export interface Question {
   tags?: string[];
   hints?: string[];
   difficulty?: 'easy' | 'medium' | 'hard';
+  vocabulary?: string[]; // Extra transcriber terms for this question, added to the bank's vocabulary
+}
+
+// Domain terms sent to the transcriber as its prompt so they are recognised and spelled as expected
+export interface QuestionBankVocabulary {
+  callsigns?: string[];   // e.g. ["Bowser One", "ATC"]
+  waypoints?: string[];   // e.g. ["runway two seven", "holding point Alpha"]
+  phraseology?: string[]; // e.g. ["hold short", "say again", "wilco"]
 }
 
 export interface QuestionBankMeta {
@@ -28,6 +43,7 @@ export interface QuestionBankMeta {
   description?: string;
   author?: string;
   createdAt?: string;
+  vocabulary?: QuestionBankVocabulary;
 }
 
 export interface QuestionBank {
@@ -67,11 +83,69 @@ export interface ProfileNormalization {
   ignorePunctuation: boolean;
 }
 
+// Evaluator backends the server can call (apps/server/src/evaluator/providers.ts)
+export type EvaluatorProviderId = 'openai' | 'azure' | 'anthropic' | 'local';
+
+// Transcription backends; file providers record first and transcribe the finished WAV
+export type SttProviderId = 'openai-realtime' | 'openai-file' | 'local-whisper';
+
+export type NoiseReductionType = 'near_field' | 'far_field' | 'off';
+export type TurnDetectionType = 'server_vad' | 'semantic_vad';
+
+export interface ProfileTranscription {
+  provider?: SttProviderId;            // openai-realtime when unset
+  model?: string;                      // Empty for the provider's server default
+  language?: string;                   // ISO-639-1; English when unset, empty string to auto-detect
+  prompt?: string;                     // Vocabulary / style hint passed to the transcription model
+  noiseReduction?: NoiseReductionType; // Realtime only; near_field when unset
+  turnDetection?: TurnDetectionType;   // Realtime only; server_vad when unset (semantic_vad ignores the VAD settings)
+}
+
+export interface SttProviderInfo {
+  id: SttProviderId;
+  label: string;
+  mode: 'streaming' | 'file';
+  configured: boolean; // Server has credentials for it
+  defaultModel: string;
+}
+
 export interface ProfileEvaluator {
   scoringPromptTemplate: string;
   explanationPromptTemplate: string;
-  model: string;
+  provider?: EvaluatorProviderId; // OpenAI when unset
+  model: string;                  // Deployment name on Azure; empty for the provider's server default
+  fallback?: {                    // Tried when the provider is down, rate limited or not configured
+    provider: EvaluatorProviderId;
+    model?: string;
+  };
   temperature: number;
+  maxAttempts?: number; // Evaluator completions per score incl. repair retries (server default when unset)
+  samples?: number;     // Independent evaluator samples averaged per score (1 when unset)
+  systemPromptTemplate?: string; // Whole system prompt layout with {{placeholders}} (server default when empty)
+  userPromptTemplate?: string;   // Whole user prompt layout with {{placeholders}} (server default when empty)
+  promptVersions?: PromptVersion[]; // Saved revisions of the templates, oldest first
+}
+
+// A saved revision of a profile's evaluator prompts
+export interface PromptVersion {
+  version: number;   // 1-based, increasing per profile
+  createdAt: string; // ISO timestamp
+  note: string;
+  scoringPromptTemplate: string;
+  explanationPromptTemplate: string;
+  systemPromptTemplate?: string;
+  userPromptTemplate?: string;
+}
+
+// Which prompts scored a run: the saved version when the templates matched one,
+// otherwise a copy of the unsaved templates
+export interface PromptVersionRef {
+  version: number | null;
+  hash: string; // Fingerprint of both templates
+  scoringPromptTemplate?: string;     // Only for unsaved drafts
+  explanationPromptTemplate?: string;
+  systemPromptTemplate?: string;
+  userPromptTemplate?: string;
 }
 
 // NOTE: STT model selection is NOT supported by OpenAI Realtime API for transcription sessions.
@@ -92,18 +166,28 @@ export interface Profile {
   fluency: ProfileFluency;
   normalization: ProfileNormalization;
   evaluator: ProfileEvaluator;
+  transcription?: ProfileTranscription; // Streaming Realtime transcription when unset
   vad?: VADSettings; // Optional VAD settings (uses server defaults if not specified)
 }
 
 // Scoring Types
+export interface PauseInterval {
+  startMs: number; // Offset from the start of captured audio
+  endMs: number;
+  durationMs: number;
+}
+
 export interface FluencyMetrics {
   durationMs: number;
   wpm: number;
-  pauseCount: number;
-  longPauseCount: number;
+  pauseCount: number;       // Pauses >= pauseThresholdMs and < longPauseThresholdMs
+  longPauseCount: number;   // Pauses >= longPauseThresholdMs
   longestPauseMs: number;
   fillerCount: number;
   fillerBreakdown: Record<string, number>;
+  pauses?: PauseInterval[]; // Measured pauses at or above pauseThresholdMs (audio-based only)
+  speechOnsetMs?: number;   // Start of audio -> first detected speech (audio-based only)
+  pauseSource?: 'audio' | 'estimated';
 }
 
 export interface ScoreReasons {
@@ -112,6 +196,55 @@ export interface ScoreReasons {
   structure: string[];
 }
 
+// Deterministic accuracy (word-level alignment)
+export type AlignmentOpType = 'match' | 'substitution' | 'deletion' | 'insertion';
+
+export interface AlignmentOp {
+  type: AlignmentOpType;
+  expected?: string; // Reference word (absent for insertions)
+  actual?: string;   // Transcript word (absent for deletions)
+}
+
+export interface AccuracyAlignment {
+  reference: string;    // Normalized reference the transcript matched best
+  variantIndex: number; // -1 = primary expected answer, 0+ = index into variants
+  wer: number;          // (substitutions + deletions + insertions) / reference words
+  hits: number;
+  substitutions: number;
+  deletions: number;
+  insertions: number;
+  score: number;        // 0-100, derived from WER
+  operations: AlignmentOp[];
+}
+
+// Rule-based structure analysis (radio-call anatomy)
+export type StructureComponent = 'receiver' | 'sender' | 'location' | 'intent' | 'closing';
+
+export interface StructureFinding {
+  component: StructureComponent;
+  required: boolean;
+  checked: boolean;  // false when there was nothing to look for (e.g. no callsign declared)
+  found: boolean;
+  text?: string;     // Matched phrase from the normalized transcript
+  position?: number; // Word index of the match
+}
+
+export interface StructureAnalysis {
+  findings: StructureFinding[];
+  orderIssues: string[]; // e.g. "sender before receiver"
+  score: number;         // 0-100
+  reasons: string[];
+}
+
+// Pass/fail
+export type ScoreSection = 'overall' | 'accuracy' | 'fluency' | 'structure';
+
+export interface SectionFailure {
+  section: ScoreSection;
+  score: number;
+  minimum: number; // passMarkOverall for 'overall', minPerSection otherwise
+}
+
 export interface ScoreResult {
   accuracyScore: number;
   fluencyScore: number;
@@ -119,9 +252,55 @@ export interface ScoreResult {
   overallScore: number;
   reasons: ScoreReasons;
   passed: boolean;
+  failures?: SectionFailure[];           // Why the run failed (empty when passed)
+  matchedVariant?: number;               // Best-matching answer: -1 = expected answer, 0+ = index into variants
+  localAccuracy?: AccuracyAlignment;     // Deterministic alignment shown next to the LLM score
+  localStructure?: StructureAnalysis;    // Rule-based structure findings shown next to the LLM score
+  scoringSource?: 'evaluator' | 'local'; // 'local' when the evaluator was unavailable
+  sampling?: ScoreSampling;              // Spread across evaluator samples (only when sampled more than once)
+}
+
+// Consistency sampling: spread of a section score across evaluator samples
+export interface ScoreStats {
+  mean: number;
+  min: number;
+  max: number;
+  stdDev: number; // Sample standard deviation
+}
+
+export interface ScoreSampling {
+  requested: number; // Samples asked for
+  valid: number;     // Samples whose output passed validation (the stats cover these)
+  scores: Array<Pick<ScoreResult, 'accuracyScore' | 'fluencyScore' | 'structureScore' | 'overallScore'>>;
+  stats: Record<ScoreSection, ScoreStats>;
 }
 
 // Telemetry Types
+export interface TokenUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+}
+
+export interface CostBreakdown {
+  transcriptionModel: string;
+  evaluatorModel: string;
+  audioSeconds: number;
+  promptTokens: number;      // 0 when the evaluator was not called
+  completionTokens: number;
+  transcriptionCost: number; // USD
+  evaluatorInputCost: number;
+  evaluatorOutputCost: number;
+  totalCost: number;
+  fallbackPricing?: string[]; // Models without a pricing entry, priced at the default model's rates
+}
+
+// Schema validation of the evaluator's output (server-side repair/retry)
+export interface EvaluatorValidation {
+  attempts: number; // Completions requested, including repair retries
+  errors: Array<{ attempt: number; sample?: number; errors: string[] }>; // One entry per attempt that failed validation (sample is 1-based, set when sampling)
+}
+
 export interface RunTelemetry {
   connectTimeMs: number;
   timeToFirstTextMs: number;
@@ -129,7 +308,11 @@ export interface RunTelemetry {
   evaluatorLatencyMs: number;
   totalLatencyMs: number;
   audioDurationMs?: number;
-  estimatedCost: number;
+  estimatedCost: number; // Same as cost.totalCost when a breakdown is present
+  cost?: CostBreakdown;
+  evaluatorValidation?: EvaluatorValidation; // Undefined when the evaluator was unreachable
+  evaluator?: EvaluatorUsed;                  // Undefined when the evaluator was unreachable
+  transcriptionProvider?: SttProviderId;      // Undefined on runs recorded before providers were selectable
 }
 
 export interface SessionTelemetry {
@@ -155,6 +338,7 @@ export interface TestRun {
   expectedAnswer: {
     raw: string;
     normalized: string;
+    variants?: string[]; // Normalized variants the transcript was also compared against
   };
   fluencyMetrics?: FluencyMetrics;
   score: ScoreResult;
@@ -162,6 +346,10 @@ export interface TestRun {
   profileId: string;
   status: 'success' | 'timeout' | 'error';
   errorMessage?: string;
+  source?: 'live' | 'replay'; // 'replay' = batch-scored from a recorded file
+  audioFileName?: string;     // Recorded file a replay run came from
+  audioId?: string;           // Key of the captured PCM16 audio in the IndexedDB audio store
+  prompt?: PromptVersionRef;  // Evaluator prompts that scored the run
 }
 
 // API Response Types
@@ -174,15 +362,139 @@ export interface TranscriptionSessionResponse {
   latency_ms?: number;
 }
 
-export interface EvaluatorScoreResponse extends ScoreResult {
-  usage?: {
-    prompt_tokens: number;
-    completion_tokens: number;
-    total_tokens: number;
+// Prompt templating, providers and dry runs (/api/evaluator/templates, /providers, /dry-run)
+export interface PromptTemplateVariable {
+  name: string;
+  description: string;
+}
+
+export interface EvaluatorTemplatesResponse {
+  systemPromptTemplate: string;
+  userPromptTemplate: string;
+  variables: PromptTemplateVariable[];
+}
+
+export interface EvaluatorDryRunResponse {
+  provider: EvaluatorProviderId;
+  url: string;
+  request: Record<string, unknown>; // Provider request body exactly as the score route sends it
+  usedFallback?: boolean;           // Only when the request was executed
+  unknownVariables: string[]; // Placeholders left as-is because no variable has that name
+  output?: {                  // Only when the request was executed
+    content: string | null;   // Raw model output
+    valid: boolean;
+    errors: string[];         // Score schema violations
+    usage?: TokenUsage;
+    latency_ms: number;
   };
+}
+
+// Provider and model that actually scored a run
+export interface EvaluatorUsed {
+  provider: EvaluatorProviderId;
+  model: string;
+  usedFallback: boolean;
+}
+
+export interface EvaluatorProviderInfo {
+  id: EvaluatorProviderId;
+  label: string;
+  configured: boolean; // Server has credentials for it
+  defaultModel: string;
+}
+
+export interface EvaluatorScoreResponse extends ScoreResult {
+  usage?: TokenUsage;
+  validation?: EvaluatorValidation;
+  evaluator?: EvaluatorUsed;
   latency_ms: number;
 }
 
+// Shared run history (/api/runs)
+export interface RunQuery {
+  profileId?: string;
+  questionId?: string;
+  status?: TestRun['status'];
+  from?: string; // ISO timestamp, inclusive
+  to?: string;   // ISO timestamp, inclusive
+  limit?: number;
+  offset?: number;
+}
+
+export interface RunPage {
+  runs: TestRun[];
+  total: number;
+  limit: number;
+  offset: number;
+}
+
+export interface RunSyncResult {
+  inserted: number;
+  skipped: number;
+  rejected: Array<{ id?: string; error: string }>;
+}
+
+export type RunSyncStatus = 'local' | 'syncing' | 'synced' | 'offline';
+
+// Golden set: transcripts with human-assigned scores, used to regression-test scoring prompts
+export interface GoldenExpectation {
+  passed: boolean;
+  accuracyScore?: number; // Section labels are optional; MAE only covers labelled sections
+  fluencyScore?: number;
+  structureScore?: number;
+  overallScore?: number;
+}
+
+export interface GoldenItem {
+  id: string;
+  questionId: string;
+  transcript: string;
+  durationMs?: number;              // Spoken duration for the fluency estimate (derived from word count when unset)
+  fluencyMetrics?: FluencyMetrics;  // Measured metrics, used as-is instead of the estimate
+  expected: GoldenExpectation;
+  notes?: string;
+}
+
+export interface GoldenSet {
+  meta: QuestionBankMeta;
+  items: GoldenItem[];
+}
+
+export interface GoldenItemResult {
+  itemId: string;
+  scores?: Pick<ScoreResult, 'accuracyScore' | 'fluencyScore' | 'structureScore' | 'overallScore' | 'passed'>;
+  scoringSource?: ScoreResult['scoringSource'];
+  error?: string;
+}
+
+export interface GoldenConfusion {
+  truePass: number;  // Labelled pass, graded pass
+  falsePass: number; // Labelled fail, graded pass
+  trueFail: number;
+  falseFail: number; // Labelled pass, graded fail
+}
+
+export interface GoldenSummary {
+  scored: number;
+  errors: number;
+  mae: Record<ScoreSection, number | null>; // Mean absolute error vs. labels (null when no item labels the section)
+  confusion: GoldenConfusion;
+  agreement: number; // Share of scored items whose pass/fail matches the label (0-1)
+}
+
+export interface GoldenRun {
+  id: string;
+  timestamp: string;
+  setTitle: string;
+  profileId: string;
+  profileName: string;
+  evaluatorModel: string;
+  promptHash: string; // Fingerprint of the profile's scoring and explanation prompts
+  promptVersion?: number | null; // Saved prompt version, null for unsaved templates
+  results: GoldenItemResult[];
+  summary: GoldenSummary;
+}
+
 // Storage Keys
 export const STORAGE_KEYS = {
   PROFILES: 'stt_console_profiles',
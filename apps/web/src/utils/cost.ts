@@ -0,0 +1,52 @@
+/**
+ * Per-run cost from measured audio seconds and real evaluator token usage
+ */
+
+import type { CostBreakdown, TokenUsage, EvaluatorProviderId, SttProviderId } from '../types';
+import { getEvaluatorPricing, getTranscriptionPricing } from './pricing';
+
+export function calculateRunCost(params: {
+  audioDurationMs: number;
+  transcriptionModel: string;
+  transcriptionProvider?: SttProviderId; // Realtime when unknown
+  evaluatorModel: string;
+  evaluatorProvider?: EvaluatorProviderId; // The provider that answered; OpenAI when unknown
+  usage?: TokenUsage; // Absent when the evaluator was not reached - nothing billed
+}): CostBreakdown {
+  const {
+    audioDurationMs,
+    transcriptionModel,
+    transcriptionProvider = 'openai-realtime',
+    evaluatorModel,
+    evaluatorProvider = 'openai',
+    usage
+  } = params;
+  const transcription = getTranscriptionPricing(transcriptionProvider, transcriptionModel);
+  const evaluator = getEvaluatorPricing(evaluatorProvider, evaluatorModel);
+
+  const audioSeconds = audioDurationMs / 1000;
+  const promptTokens = usage?.prompt_tokens ?? 0;
+  const completionTokens = usage?.completion_tokens ?? 0;
+
+  const transcriptionCost = (audioSeconds / 60) * transcription.pricing.perMinute;
+  const evaluatorInputCost = (promptTokens / 1_000_000) * evaluator.pricing.inputPerMillion;
+  const evaluatorOutputCost = (completionTokens / 1_000_000) * evaluator.pricing.outputPerMillion;
+
+  const fallbackPricing = [
+    ...(transcription.fallback ? [transcriptionModel] : []),
+    ...(evaluator.fallback && usage ? [evaluatorModel] : [])
+  ];
+
+  return {
+    transcriptionModel,
+    evaluatorModel,
+    audioSeconds,
+    promptTokens,
+    completionTokens,
+    transcriptionCost,
+    evaluatorInputCost,
+    evaluatorOutputCost,
+    totalCost: transcriptionCost + evaluatorInputCost + evaluatorOutputCost,
+    ...(fallbackPricing.length > 0 ? { fallbackPricing } : {})
+  };
+}
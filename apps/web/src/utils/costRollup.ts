@@ -0,0 +1,105 @@
+/**
+ * Cost roll-ups over recorded runs (Telemetry page)
+ *
+ * Runs recorded before per-run cost breakdowns existed only carry
+ * estimatedCost; they are counted in totals under an "unknown" model.
+ * Rows that include a model priced at the default model's rates (no entry in
+ * utils/pricing.ts) are flagged as estimated.
+ */
+
+import type { TestRun } from '../types';
+
+const UNKNOWN_MODEL = 'unknown (flat estimate)';
+
+export interface ProfileCostRow {
+  profileId: string;
+  runs: number;
+  transcriptionCost: number;
+  evaluatorCost: number;
+  totalCost: number;
+  estimated: boolean; // Some runs used fallback pricing
+}
+
+export interface EvaluatorModelCostRow {
+  model: string;
+  runs: number;
+  promptTokens: number;
+  completionTokens: number;
+  cost: number;
+  estimated: boolean;
+}
+
+export interface TranscriptionModelCostRow {
+  model: string;
+  runs: number;
+  audioSeconds: number;
+  cost: number;
+  estimated: boolean;
+}
+
+const isFallbackPriced = (run: TestRun, model?: string) =>
+  model ? !!run.telemetry.cost?.fallbackPricing?.includes(model) : !!run.telemetry.cost?.fallbackPricing?.length;
+
+/**
+ * Models without a pricing entry across the runs, for the estimate note
+ */
+export function fallbackPricedModels(runs: TestRun[]): string[] {
+  return Array.from(new Set(runs.flatMap(run => run.telemetry.cost?.fallbackPricing ?? []))).sort();
+}
+
+function groupBy<T>(runs: TestRun[], keyOf: (run: TestRun) => string, init: (key: string) => T, add: (row: T, run: TestRun) => void): T[] {
+  const rows = new Map<string, T>();
+  for (const run of runs) {
+    const key = keyOf(run);
+    if (!rows.has(key)) rows.set(key, init(key));
+    add(rows.get(key) as T, run);
+  }
+  return Array.from(rows.values());
+}
+
+export function rollUpByProfile(runs: TestRun[]): ProfileCostRow[] {
+  return groupBy<ProfileCostRow>(
+    runs,
+    run => run.profileId,
+    profileId => ({ profileId, runs: 0, transcriptionCost: 0, evaluatorCost: 0, totalCost: 0, estimated: false }),
+    (row, run) => {
+      const cost = run.telemetry.cost;
+      row.runs++;
+      row.transcriptionCost += cost?.transcriptionCost ?? 0;
+      row.evaluatorCost += cost ? cost.evaluatorInputCost + cost.evaluatorOutputCost : 0;
+      row.totalCost += cost?.totalCost ?? run.telemetry.estimatedCost;
+      row.estimated ||= isFallbackPriced(run);
+    }
+  ).sort((a, b) => b.totalCost - a.totalCost);
+}
+
+export function rollUpByEvaluatorModel(runs: TestRun[]): EvaluatorModelCostRow[] {
+  return groupBy<EvaluatorModelCostRow>(
+    runs,
+    run => run.telemetry.cost?.evaluatorModel ?? UNKNOWN_MODEL,
+    model => ({ model, runs: 0, promptTokens: 0, completionTokens: 0, cost: 0, estimated: false }),
+    (row, run) => {
+      const cost = run.telemetry.cost;
+      row.runs++;
+      row.promptTokens += cost?.promptTokens ?? 0;
+      row.completionTokens += cost?.completionTokens ?? 0;
+      row.cost += cost ? cost.evaluatorInputCost + cost.evaluatorOutputCost : 0;
+      row.estimated ||= isFallbackPriced(run, row.model);
+    }
+  ).sort((a, b) => b.cost - a.cost);
+}
+
+export function rollUpByTranscriptionModel(runs: TestRun[]): TranscriptionModelCostRow[] {
+  return groupBy<TranscriptionModelCostRow>(
+    runs,
+    run => run.telemetry.cost?.transcriptionModel ?? UNKNOWN_MODEL,
+    model => ({ model, runs: 0, audioSeconds: 0, cost: 0, estimated: false }),
+    (row, run) => {
+      const cost = run.telemetry.cost;
+      row.runs++;
+      row.audioSeconds += cost?.audioSeconds ?? (run.telemetry.audioDurationMs ?? 0) / 1000;
+      row.cost += cost?.transcriptionCost ?? 0;
+      row.estimated ||= isFallbackPriced(run, row.model);
+    }
+  ).sort((a, b) => b.cost - a.cost);
+}
@@ -0,0 +1,47 @@
+/**
+ * Evaluator reliability per model (Telemetry page)
+ *
+ * Counts how often each evaluator model's output passed schema validation on
+ * the first completion, needed a repair retry, or stayed invalid (the run was
+ * then graded locally). Runs recorded without validation data are skipped.
+ */
+
+import type { TestRun } from '../types';
+
+export interface EvaluatorReliabilityRow {
+  model: string;
+  runs: number;
+  firstAttemptValid: number;
+  repaired: number;
+  failed: number;
+  averageAttempts: number;
+}
+
+export function rollUpEvaluatorReliability(runs: TestRun[]): EvaluatorReliabilityRow[] {
+  const rows = new Map<string, EvaluatorReliabilityRow & { totalAttempts: number }>();
+
+  for (const run of runs) {
+    const validation = run.telemetry.evaluatorValidation;
+    if (!validation) continue;
+
+    const model = run.telemetry.cost?.evaluatorModel ?? 'unknown';
+    const row = rows.get(model) ?? {
+      model, runs: 0, firstAttemptValid: 0, repaired: 0, failed: 0, averageAttempts: 0, totalAttempts: 0
+    };
+
+    row.runs++;
+    row.totalAttempts += validation.attempts;
+    if (run.score.scoringSource === 'local') {
+      row.failed++;
+    } else if (validation.errors.length === 0) {
+      row.firstAttemptValid++;
+    } else {
+      row.repaired++;
+    }
+    rows.set(model, row);
+  }
+
+  return Array.from(rows.values())
+    .map(({ totalAttempts, ...row }) => ({ ...row, averageAttempts: totalAttempts / row.runs }))
+    .sort((a, b) => b.runs - a.runs);
+}
@@ -2,17 +2,11 @@
  * Fluency metrics extraction and estimation utilities
  */
 
+import type { FluencyMetrics, ProfileFluency } from '../types';
+import type { SpeechSegmentation } from '../audio/silenceSegmenter';
 import { countWords, countFillers } from './textNormalization';
 
-export interface FluencyMetrics {
-  durationMs: number;
-  wpm: number;
-  pauseCount: number;
-  longPauseCount: number;
-  longestPauseMs: number;
-  fillerCount: number;
-  fillerBreakdown: Record<string, number>;
-}
+export type { FluencyMetrics };
 
 /**
  * Estimate fluency metrics from transcript and duration
@@ -20,17 +14,18 @@ export interface FluencyMetrics {
  */
 export function estimateFluencyMetrics(
   transcript: string,
-  durationMs: number
+  durationMs: number,
+  fillerWords?: string[]
 ): FluencyMetrics {
   // Count words (excluding fillers for WPM calculation)
-  const wordCount = countWords(transcript, true);
+  const wordCount = countWords(transcript, true, fillerWords);
 
   // Calculate words per minute
   const minutes = durationMs / 60000;
   const wpm = minutes > 0 ? Math.round(wordCount / minutes) : 0;
 
   // Count fillers
-  const { total: fillerCount, breakdown: fillerBreakdown } = countFillers(transcript);
+  const { total: fillerCount, breakdown: fillerBreakdown } = countFillers(transcript, fillerWords);
 
   // Estimate pauses based on duration and word count
   // Average speaking rate is ~150 WPM, so we can estimate expected duration
@@ -53,7 +48,50 @@ export function estimateFluencyMetrics(
     longPauseCount,
     longestPauseMs,
     fillerCount,
-    fillerBreakdown
+    fillerBreakdown,
+    pauseSource: 'estimated'
+  };
+}
+
+/**
+ * Build fluency metrics from measured speech segmentation
+ * Pauses are classified with the profile thresholds: a gap counts as a pause
+ * at pauseThresholdMs and as a long pause (instead) at longPauseThresholdMs.
+ * Falls back to the estimate when no speech was detected in the audio.
+ */
+export function measureFluencyMetrics(
+  transcript: string,
+  durationMs: number,
+  segmentation: SpeechSegmentation | null | undefined,
+  fluency: Pick<ProfileFluency, 'pauseThresholdMs' | 'longPauseThresholdMs' | 'fillerWords'>
+): FluencyMetrics {
+  if (!segmentation || segmentation.speechOnsetMs === null) {
+    return estimateFluencyMetrics(transcript, durationMs, fluency.fillerWords);
+  }
+
+  const wordCount = countWords(transcript, true, fluency.fillerWords);
+  const { total: fillerCount, breakdown: fillerBreakdown } = countFillers(transcript, fluency.fillerWords);
+
+  // WPM over the spoken span only, so lead-in and trailing silence don't drag it down
+  const speakingMs = (segmentation.speechEndMs ?? durationMs) - segmentation.speechOnsetMs;
+  const minutes = speakingMs / 60000;
+  const wpm = minutes > 0 ? Math.round(wordCount / minutes) : 0;
+
+  const pauses = segmentation.pauses.filter(p => p.durationMs >= fluency.pauseThresholdMs);
+  const longPauseCount = pauses.filter(p => p.durationMs >= fluency.longPauseThresholdMs).length;
+
+  return {
+    durationMs,
+    wpm,
+    pauseCount: pauses.length - longPauseCount,
+    longPauseCount,
+    // Follows the profile thresholds like the counts (0 when no gap counts as a pause)
+    longestPauseMs: pauses.reduce((max, p) => Math.max(max, p.durationMs), 0),
+    fillerCount,
+    fillerBreakdown,
+    pauses,
+    speechOnsetMs: segmentation.speechOnsetMs,
+    pauseSource: 'audio'
   };
 }
 
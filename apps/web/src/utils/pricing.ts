@@ -0,0 +1,92 @@
+/**
+ * Provider pricing tables (USD)
+ *
+ * Used to cost each run from the measured audio duration and the evaluator's
+ * reported token usage. Update when OpenAI or Anthropic change their prices.
+ */
+
+import type { EvaluatorProviderId, SttProviderId } from '../types';
+
+export interface TokenPricing {
+  inputPerMillion: number;
+  outputPerMillion: number;
+}
+
+export interface AudioPricing {
+  perMinute: number;
+}
+
+// OpenAI evaluator (chat completions) models, per 1M tokens; also used for Azure deployments named after the model
+export const EVALUATOR_PRICING: Record<string, TokenPricing> = {
+  'gpt-4o-mini': { inputPerMillion: 0.15, outputPerMillion: 0.60 },
+  'gpt-4o': { inputPerMillion: 2.50, outputPerMillion: 10.00 },
+  'gpt-4.1-nano': { inputPerMillion: 0.10, outputPerMillion: 0.40 },
+  'gpt-4.1-mini': { inputPerMillion: 0.40, outputPerMillion: 1.60 },
+  'gpt-4.1': { inputPerMillion: 2.00, outputPerMillion: 8.00 }
+};
+
+// Anthropic evaluator models, per 1M tokens
+export const ANTHROPIC_EVALUATOR_PRICING: Record<string, TokenPricing> = {
+  'claude-3-haiku': { inputPerMillion: 0.25, outputPerMillion: 1.25 },
+  'claude-3-5-haiku': { inputPerMillion: 0.80, outputPerMillion: 4.00 },
+  'claude-haiku-4-5': { inputPerMillion: 1.00, outputPerMillion: 5.00 },
+  'claude-3-5-sonnet': { inputPerMillion: 3.00, outputPerMillion: 15.00 },
+  'claude-3-7-sonnet': { inputPerMillion: 3.00, outputPerMillion: 15.00 },
+  'claude-sonnet-4': { inputPerMillion: 3.00, outputPerMillion: 15.00 },
+  'claude-opus-4': { inputPerMillion: 15.00, outputPerMillion: 75.00 }
+};
+
+// Local models run on our own hardware
+const FREE_TOKENS: TokenPricing = { inputPerMillion: 0, outputPerMillion: 0 };
+
+// Transcription models, per minute of audio
+export const TRANSCRIPTION_PRICING: Record<string, AudioPricing> = {
+  'gpt-4o-mini-transcribe': { perMinute: 0.003 },
+  'gpt-4o-transcribe': { perMinute: 0.006 },
+  'whisper-1': { perMinute: 0.006 }
+};
+
+// Server defaults, also used to price models missing from the tables
+export const DEFAULT_EVALUATOR_MODEL = 'gpt-4o-mini';
+export const DEFAULT_TRANSCRIPTION_MODEL = 'gpt-4o-mini-transcribe';
+const DEFAULT_ANTHROPIC_MODEL = 'claude-3-5-haiku';
+
+/**
+ * Exact entry, else the longest entry the model name starts with, so dated
+ * snapshots and aliases ('claude-3-5-haiku-latest', 'gpt-4o-2024-08-06') match
+ */
+function lookupPricing<T>(table: Record<string, T>, model: string): T | undefined {
+  if (table[model]) return table[model];
+  const prefix = Object.keys(table)
+    .filter(key => model.startsWith(`${key}-`))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? table[prefix] : undefined;
+}
+
+export function getEvaluatorPricing(
+  provider: EvaluatorProviderId,
+  model: string
+): { pricing: TokenPricing; fallback: boolean } {
+  if (provider === 'local') return { pricing: FREE_TOKENS, fallback: false };
+
+  const [table, defaultModel] = provider === 'anthropic'
+    ? [ANTHROPIC_EVALUATOR_PRICING, DEFAULT_ANTHROPIC_MODEL]
+    : [EVALUATOR_PRICING, DEFAULT_EVALUATOR_MODEL];
+  const pricing = lookupPricing(table, model);
+  return pricing
+    ? { pricing, fallback: false }
+    : { pricing: table[defaultModel], fallback: true };
+}
+
+export function getTranscriptionPricing(
+  provider: SttProviderId,
+  model: string
+): { pricing: AudioPricing; fallback: boolean } {
+  // Local Whisper runs on our own hardware
+  if (provider === 'local-whisper') return { pricing: { perMinute: 0 }, fallback: false };
+
+  const pricing = lookupPricing(TRANSCRIPTION_PRICING, model);
+  return pricing
+    ? { pricing, fallback: false }
+    : { pricing: TRANSCRIPTION_PRICING[DEFAULT_TRANSCRIPTION_MODEL], fallback: true };
+}
@@ -0,0 +1,144 @@
+/**
+ * Evaluator prompt versioning
+ *
+ * Prompt edits on the Prompts page are live; a version is an explicit
+ * snapshot of the scoring and explanation templates (and any custom prompt
+ * layouts) with a note. Runs are tagged with the version
+ * whose text matches the templates that scored them, or carry a copy of the
+ * templates when they were scored with unsaved edits.
+ */
+
+import type { ProfileEvaluator, PromptVersion, PromptVersionRef } from '../types';
+
+type PromptTemplates = Pick<
+  ProfileEvaluator,
+  'scoringPromptTemplate' | 'explanationPromptTemplate' | 'systemPromptTemplate' | 'userPromptTemplate'
+>;
+
+// Custom layouts only; an empty layout means the server default
+const layoutTemplates = (templates: PromptTemplates) => ({
+  ...(templates.systemPromptTemplate ? { systemPromptTemplate: templates.systemPromptTemplate } : {}),
+  ...(templates.userPromptTemplate ? { userPromptTemplate: templates.userPromptTemplate } : {})
+});
+
+/**
+ * Short fingerprint of the templates (djb2), to tell runs apart at a glance
+ */
+export function hashPrompts(templates: PromptTemplates): string {
+  // Layouts are only hashed when set, so fingerprints from before layouts existed still match
+  const layouts = templates.systemPromptTemplate || templates.userPromptTemplate
+    ? `\u0000${templates.systemPromptTemplate ?? ''}\u0000${templates.userPromptTemplate ?? ''}`
+    : '';
+  const text = `${templates.scoringPromptTemplate}\u0000${templates.explanationPromptTemplate}${layouts}`;
+  let hash = 5381;
+  for (let i = 0; i < text.length; i++) {
+    hash = ((hash << 5) + hash + text.charCodeAt(i)) >>> 0;
+  }
+  return hash.toString(16).padStart(8, '0');
+}
+
+const sameTemplates = (a: PromptTemplates, b: PromptTemplates) =>
+  a.scoringPromptTemplate === b.scoringPromptTemplate &&
+  a.explanationPromptTemplate === b.explanationPromptTemplate &&
+  (a.systemPromptTemplate ?? '') === (b.systemPromptTemplate ?? '') &&
+  (a.userPromptTemplate ?? '') === (b.userPromptTemplate ?? '');
+
+/**
+ * The newest saved version identical to the current templates, if any
+ */
+export function findPromptVersion(evaluator: ProfileEvaluator): PromptVersion | undefined {
+  const versions = evaluator.promptVersions ?? [];
+  for (let i = versions.length - 1; i >= 0; i--) {
+    if (sameTemplates(versions[i], evaluator)) {
+      return versions[i];
+    }
+  }
+  return undefined;
+}
+
+export function createPromptVersion(evaluator: ProfileEvaluator, note: string): PromptVersion {
+  const versions = evaluator.promptVersions ?? [];
+  return {
+    version: versions.reduce((max, v) => Math.max(max, v.version), 0) + 1,
+    createdAt: new Date().toISOString(),
+    note: note.trim(),
+    scoringPromptTemplate: evaluator.scoringPromptTemplate,
+    explanationPromptTemplate: evaluator.explanationPromptTemplate,
+    ...layoutTemplates(evaluator)
+  };
+}
+
+/**
+ * Tag for a run scored with the evaluator's current templates
+ */
+export function describePrompt(evaluator: ProfileEvaluator): PromptVersionRef {
+  const saved = findPromptVersion(evaluator);
+  const hash = hashPrompts(evaluator);
+  return saved
+    ? { version: saved.version, hash }
+    : {
+      version: null,
+      hash,
+      scoringPromptTemplate: evaluator.scoringPromptTemplate,
+      explanationPromptTemplate: evaluator.explanationPromptTemplate,
+      ...layoutTemplates(evaluator)
+    };
+}
+
+export const formatPromptRef = (ref: PromptVersionRef) =>
+  ref.version !== null ? `v${ref.version} (${ref.hash})` : `unsaved (${ref.hash})`;
+
+// One row of a side-by-side diff; a changed line has both sides
+export interface DiffRow {
+  type: 'same' | 'removed' | 'added' | 'changed';
+  left?: string;
+  right?: string;
+}
+
+/**
+ * Line-level side-by-side diff (LCS), pairing removed and added runs into changed rows
+ */
+export function diffLines(before: string, after: string): DiffRow[] {
+  const a = before.split('\n');
+  const b = after.split('\n');
+
+  // lcs[i][j] = LCS length of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const rows: DiffRow[] = [];
+  let removed: string[] = [];
+  let added: string[] = [];
+  const flush = () => {
+    const paired = Math.min(removed.length, added.length);
+    for (let k = 0; k < paired; k++) {
+      rows.push({ type: 'changed', left: removed[k], right: added[k] });
+    }
+    removed.slice(paired).forEach(line => rows.push({ type: 'removed', left: line }));
+    added.slice(paired).forEach(line => rows.push({ type: 'added', right: line }));
+    removed = [];
+    added = [];
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      flush();
+      rows.push({ type: 'same', left: a[i], right: b[j] });
+      i++;
+      j++;
+    } else if (j < b.length && (i === a.length || lcs[i][j + 1] >= lcs[i + 1][j])) {
+      added.push(b[j++]);
+    } else {
+      removed.push(a[i++]);
+    }
+  }
+  flush();
+
+  return rows;
+}
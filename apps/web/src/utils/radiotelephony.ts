@@ -0,0 +1,179 @@
+/**
+ * Radiotelephony (R/T) number normalization
+ *
+ * Canonicalizes the way numbers are spoken on the radio so a transcript and
+ * an expected answer compare equal however each one was written:
+ * - ICAO pronunciations: niner, tree, fife, fower, ait, wun, tousand, dayseemal
+ * - Digit-by-digit groups: "two seven" -> "27", "heading zero niner zero" -> "090"
+ * - Thousand/hundred groupings: "one zero thousand" -> "10000", "three thousand five hundred" -> "3500"
+ * - Decimals: "one one eight decimal five" / "118 point 5" -> "118.5"
+ *
+ * Runs on lowercased text before punctuation is stripped, so commas and full
+ * stops still separate adjacent numbers ("Bowser One, two seven" stays two numbers).
+ */
+
+// ICAO / R/T pronunciations -> standard words
+const RT_PRONUNCIATIONS: Record<string, string> = {
+  'niner': 'nine',
+  'tree': 'three',
+  'fife': 'five',
+  'fower': 'four',
+  'ait': 'eight',
+  'wun': 'one',
+  'tousand': 'thousand',
+  'dayseemal': 'decimal',
+  'point': 'decimal'
+};
+
+const DIGIT_WORDS: Record<string, string> = {
+  'zero': '0', 'one': '1', 'two': '2', 'three': '3', 'four': '4',
+  'five': '5', 'six': '6', 'seven': '7', 'eight': '8', 'nine': '9'
+};
+
+const MULTIPLIERS: Record<string, number> = {
+  'hundred': 100,
+  'thousand': 1000
+};
+
+const LEADING_PUNCTUATION = /^["'([{]+/;
+const TRAILING_PUNCTUATION = /[.,!?;:'")\]}]+$/;
+// Punctuation that ends a spoken number group
+const GROUP_BREAK = /[.,!?;:]/;
+
+interface Token {
+  leading: string;
+  word: string;
+  trailing: string;
+}
+
+function splitToken(raw: string): Token {
+  const leading = raw.match(LEADING_PUNCTUATION)?.[0] ?? '';
+  const rest = raw.slice(leading.length);
+  const trailing = rest.match(TRAILING_PUNCTUATION)?.[0] ?? '';
+  return { leading, word: rest.slice(0, rest.length - trailing.length), trailing };
+}
+
+function isDigits(word: string): boolean {
+  return /^\d+$/.test(word);
+}
+
+/**
+ * Map a word to its canonical numeric form: digit string, "decimal",
+ * "hundred"/"thousand", or null if it is not part of a number
+ */
+function toNumericWord(word: string): string | null {
+  const canonical = RT_PRONUNCIATIONS[word] ?? word;
+  if (DIGIT_WORDS[canonical]) return DIGIT_WORDS[canonical];
+  if (isDigits(canonical) || /^\d+\.\d+$/.test(canonical)) return canonical;
+  if (canonical === 'decimal' || MULTIPLIERS[canonical]) return canonical;
+  return null;
+}
+
+/**
+ * Collapse one run of numeric words into number tokens
+ * `spoken` holds the original words, used to restore a "point" that
+ * turned out not to be a decimal separator ("at this point").
+ */
+function collapseNumberRun(words: string[], spoken: string[]): string[] {
+  const out: string[] = [];
+  let digits = '';
+  let total = 0;
+  let hasMultiplier = false;
+  let integerPart: string | null = null; // Set once a decimal separator has been consumed
+  let fraction = '';
+
+  const currentValue = () => hasMultiplier
+    ? String(total + (digits ? parseInt(digits, 10) : 0))
+    : digits;
+
+  const flush = () => {
+    if (integerPart !== null) {
+      out.push(fraction ? `${integerPart}.${fraction}` : integerPart);
+    } else if (hasMultiplier || digits) {
+      out.push(currentValue());
+    }
+    digits = '';
+    total = 0;
+    hasMultiplier = false;
+    integerPart = null;
+    fraction = '';
+  };
+
+  words.forEach((word, i) => {
+    if (isDigits(word) || word.includes('.')) {
+      if (integerPart !== null) {
+        fraction += word.replace('.', '');
+      } else if (word.includes('.')) {
+        // Already-written decimal ("118.5") is a complete number
+        flush();
+        out.push(word);
+      } else {
+        digits += word;
+      }
+    } else if (MULTIPLIERS[word]) {
+      if (integerPart !== null || (!digits && !hasMultiplier)) {
+        // "hundred" with nothing to multiply - leave it for digit/word conversion
+        flush();
+        out.push(word);
+      } else {
+        total += (digits ? parseInt(digits, 10) : 1) * MULTIPLIERS[word];
+        digits = '';
+        hasMultiplier = true;
+      }
+    } else if (word === 'decimal') {
+      const next = words[i + 1];
+      const hasInteger = hasMultiplier || digits.length > 0;
+      if (integerPart === null && hasInteger && next !== undefined && isDigits(next)) {
+        integerPart = currentValue();
+        digits = '';
+        total = 0;
+        hasMultiplier = false;
+      } else {
+        flush();
+        out.push(spoken[i] === 'point' ? 'point' : word);
+      }
+    }
+  });
+
+  flush();
+  return out;
+}
+
+/**
+ * Apply R/T number normalization to lowercased text
+ */
+export function normalizeRadiotelephony(text: string): string {
+  const tokens = text.split(/\s+/).filter(t => t.length > 0).map(splitToken);
+  const output: string[] = [];
+  let run: Token[] = [];
+
+  const flushRun = () => {
+    if (run.length === 0) return;
+    const collapsed = collapseNumberRun(
+      run.map(t => toNumericWord(t.word) as string),
+      run.map(t => t.word)
+    );
+    if (collapsed.length > 0) {
+      collapsed[0] = run[0].leading + collapsed[0];
+      collapsed[collapsed.length - 1] += run[run.length - 1].trailing;
+    }
+    output.push(...collapsed);
+    run = [];
+  };
+
+  for (const token of tokens) {
+    if (toNumericWord(token.word) === null) {
+      flushRun();
+      output.push(token.leading + token.word + token.trailing);
+      continue;
+    }
+
+    run.push(token);
+    if (GROUP_BREAK.test(token.trailing)) {
+      flushRun();
+    }
+  }
+  flushRun();
+
+  return output.join(' ');
+}
@@ -2,6 +2,9 @@
  * Text normalization utilities for comparing spoken responses to expected answers
  */
 
+import type { Profile } from '../types';
+import { normalizeRadiotelephony } from './radiotelephony';
+
 // Number word mappings for normalization
 const numberWords: Record<string, string> = {
   'zero': '0', 'one': '1', 'two': '2', 'three': '3', 'four': '4',
@@ -25,6 +28,23 @@ export const FILLER_WORDS = [
   'actually', 'so', 'well', 'right', 'okay', 'hmm'
 ];
 
+/**
+ * Build a whole-word regex for a filler (fillers may contain spaces, e.g. "you know")
+ */
+function fillerRegex(filler: string): RegExp {
+  const escaped = filler.trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`\\b${escaped}\\b`, 'gi');
+}
+
+/**
+ * Normalize a filler list: lowercase, drop blanks, longest first so
+ * multi-word fillers are matched before their component words
+ */
+function prepareFillers(fillerWords: string[]): string[] {
+  return [...new Set(fillerWords.map(f => f.trim().toLowerCase()).filter(Boolean))]
+    .sort((a, b) => b.length - a.length);
+}
+
 // Phonetic alphabet (NATO)
 const phoneticAlphabet: Record<string, string> = {
   'alpha': 'a', 'bravo': 'b', 'charlie': 'c', 'delta': 'd',
@@ -42,22 +62,35 @@ const phoneticAlphabet: Record<string, string> = {
  * - Removes punctuation
  * - Normalizes whitespace
  * - Converts number words to digits (or vice versa based on mode)
+ * - Optionally applies R/T number normalization (niner, decimal, thousand groupings)
  */
 export function normalizeText(text: string, options: {
   convertNumbersToDigits?: boolean;
+  rtNumberVariants?: boolean;
   removeFillers?: boolean;
+  fillerWords?: string[]; // Defaults to FILLER_WORDS; pass the profile's list
   expandPhonetic?: boolean;
 } = {}): string {
   const {
     convertNumbersToDigits = true,
+    rtNumberVariants = false,
     removeFillers = false,
+    fillerWords = FILLER_WORDS,
     expandPhonetic = false
   } = options;
 
   let normalized = text.toLowerCase();
 
+  // R/T numbers first - it relies on punctuation to separate adjacent numbers
+  if (rtNumberVariants) {
+    normalized = normalizeRadiotelephony(normalized);
+  }
+
   // Remove punctuation except hyphens in compound words
-  normalized = normalized.replace(/[.,!?;:'"()[\]{}]/g, '');
+  // (R/T mode keeps decimal points inside numbers, e.g. frequencies like 118.5)
+  normalized = rtNumberVariants
+    ? normalized.replace(/[,!?;:'"()[\]{}]|\.(?!\d)|(?<!\d)\./g, '')
+    : normalized.replace(/[.,!?;:'"()[\]{}]/g, '');
 
   // Normalize whitespace
   normalized = normalized.replace(/\s+/g, ' ').trim();
@@ -72,9 +105,8 @@ export function normalizeText(text: string, options: {
 
   // Remove filler words if requested
   if (removeFillers) {
-    for (const filler of FILLER_WORDS) {
-      const regex = new RegExp(`\\b${filler}\\b`, 'gi');
-      normalized = normalized.replace(regex, '');
+    for (const filler of prepareFillers(fillerWords)) {
+      normalized = normalized.replace(fillerRegex(filler), '');
     }
     // Clean up extra spaces
     normalized = normalized.replace(/\s+/g, ' ').trim();
@@ -91,6 +123,23 @@ export function normalizeText(text: string, options: {
   return normalized;
 }
 
+/**
+ * Normalize text with a profile's normalization and filler settings
+ * Transcripts pass removeFillers; expected answers and variants don't.
+ */
+export function normalizeForProfile(
+  text: string,
+  profile: Profile,
+  options: { removeFillers?: boolean } = {}
+): string {
+  return normalizeText(text, {
+    convertNumbersToDigits: profile.normalization.digitWordEquivalence,
+    rtNumberVariants: profile.normalization.rtNumberVariants,
+    removeFillers: options.removeFillers ?? false,
+    fillerWords: profile.fluency.fillerWords
+  });
+}
+
 /**
  * Convert a digit string to spoken words
  * e.g., "27" -> "two seven"
@@ -102,13 +151,12 @@ export function digitToWords(digits: string): string {
 /**
  * Calculate word count (excluding fillers if specified)
  */
-export function countWords(text: string, excludeFillers = false): number {
+export function countWords(text: string, excludeFillers = false, fillerWords: string[] = FILLER_WORDS): number {
   let processedText = text.toLowerCase();
 
   if (excludeFillers) {
-    for (const filler of FILLER_WORDS) {
-      const regex = new RegExp(`\\b${filler}\\b`, 'gi');
-      processedText = processedText.replace(regex, '');
+    for (const filler of prepareFillers(fillerWords)) {
+      processedText = processedText.replace(fillerRegex(filler), '');
     }
   }
 
@@ -118,18 +166,24 @@ export function countWords(text: string, excludeFillers = false): number {
 
 /**
  * Count filler words in text
+ * Multi-word fillers are counted first and removed, so "you know" is not
+ * also counted as a "you" filler when both are in the list.
  */
-export function countFillers(text: string): { total: number; breakdown: Record<string, number> } {
+export function countFillers(
+  text: string,
+  fillerWords: string[] = FILLER_WORDS
+): { total: number; breakdown: Record<string, number> } {
   const breakdown: Record<string, number> = {};
   let total = 0;
-  const lowerText = text.toLowerCase();
+  let lowerText = text.toLowerCase();
 
-  for (const filler of FILLER_WORDS) {
-    const regex = new RegExp(`\\b${filler}\\b`, 'gi');
+  for (const filler of prepareFillers(fillerWords)) {
+    const regex = fillerRegex(filler);
     const matches = lowerText.match(regex);
     if (matches) {
       breakdown[filler] = matches.length;
       total += matches.length;
+      lowerText = lowerText.replace(regex, ' ');
     }
   }
 
@@ -0,0 +1,54 @@
+/**
+ * Transcription prompt from the question bank's domain vocabulary
+ *
+ * Callsigns, waypoints and R/T phraseology are listed in the prompt the
+ * transcriber receives (Realtime session and file providers alike), after the
+ * profile's own prompt, so domain words are not mis-heard and then counted as
+ * the trainee's mistakes. Whisper-family models only read the last ~224
+ * tokens of a prompt, so keep vocabularies short.
+ */
+
+import type { ProfileTranscription, Question, QuestionBankVocabulary } from '../types';
+
+/**
+ * Bank vocabulary followed by the question's extra terms, without duplicates (case-insensitive)
+ */
+export function collectVocabulary(
+  vocabulary: QuestionBankVocabulary | undefined,
+  question: Question | null | undefined
+): string[] {
+  const terms = [
+    ...(vocabulary?.callsigns ?? []),
+    ...(vocabulary?.waypoints ?? []),
+    ...(vocabulary?.phraseology ?? []),
+    ...(question?.vocabulary ?? [])
+  ];
+
+  const seen = new Set<string>();
+  return terms
+    .map(term => term.trim())
+    .filter(term => {
+      const key = term.toLowerCase();
+      if (!term || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+}
+
+export function buildTranscriptionPrompt(profilePrompt: string | undefined, terms: string[]): string {
+  return [
+    profilePrompt?.trim(),
+    terms.length > 0 ? `Vocabulary: ${terms.join(', ')}.` : ''
+  ].filter(Boolean).join('\n');
+}
+
+/**
+ * The profile's transcription settings with the vocabulary added to its prompt
+ */
+export function withVocabularyPrompt(
+  transcription: ProfileTranscription | undefined,
+  terms: string[]
+): ProfileTranscription | undefined {
+  if (terms.length === 0) return transcription;
+  return { ...transcription, prompt: buildTranscriptionPrompt(transcription?.prompt, terms) };
+}
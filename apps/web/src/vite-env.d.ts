@@ -2,6 +2,8 @@
 
 interface ImportMetaEnv {
   readonly VITE_API_URL: string;
+  readonly VITE_REALTIME_URL?: string;
+  readonly VITE_REALTIME_RELAY?: string;
 }
 
 interface ImportMeta {